@@ -1,58 +1,41 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage, Blob as GenAIBlob, Type, FunctionDeclaration } from '@google/genai';
-import { GameState, GameMode, DrawingPrompt, TranscriptionItem, MultiplayerMessage, Player } from './types';
-import { PROMPTS, Icons } from './constants';
+import { GoogleGenAI } from '@google/genai';
+import { GameState, GameMode, DrawingPrompt, TranscriptionItem, MultiplayerMessage, Player, DrawingRecording, ScoreTable, MatchSettings, RoundEvent, RoundEventKind, RoundRecord, Profile, Keyframe } from './types';
+import { PROMPTS, PLAYER_COLORS, Icons } from './constants';
 import DrawingCanvas, { CanvasHandle, DrawingMetrics } from './components/DrawingCanvas';
-import { encode, decode, decodeAudioData } from './services/audioUtils';
+import ReplayPlayer from './components/ReplayPlayer';
+import PromptLibrary from './components/PromptLibrary';
+import Scoreboard from './components/Scoreboard';
+import MatchSetup from './components/MatchSetup';
+import Gallery from './components/Gallery';
+import Leaderboard from './components/Leaderboard';
+import ProfilePicker from './components/ProfilePicker';
+import CaptionFeed from './components/CaptionFeed';
+import EventLog from './components/EventLog';
+import { createDocument, documentToPng, documentToSvg, parseDocument, serializeDocument } from './services/drawingExport';
+import { DRAWING_HEIGHT, DRAWING_WIDTH } from './services/strokeRenderer';
+import { downloadBlob, downloadText } from './services/fileUtils';
 import { SoundManager } from './services/soundManager';
+import { buildPlayerMetrics, PlayerMetrics } from './services/judgeMetrics';
+import { JUDGE_KINDS, JudgeKind, JudgeSession, JudgeState, JudgeTip, JudgeVerdict } from './services/judge';
+import { createGeminiJudge } from './services/geminiJudge';
+import { createLocalJudge } from './services/localJudge';
+import { RoomTransport, TRANSPORT_KINDS, TransportKind, defaultRelayUrl, openTransport } from './services/roomTransport';
+import { HEARTBEAT_INTERVAL_MS, MAX_NAME_LENGTH, MAX_PLAYERS, MAX_SPECTATORS, MessageBody, PEER_TIMEOUT_MS, RESULTS_GRACE_MS, createMessage } from './services/protocol';
+import { createClockSync } from './services/clockSync';
+import { newId, rememberPrompt } from './services/promptLibrary';
+import { saveRound, updateRound } from './services/historyStore';
+import { appendTranscript, formatTranscript } from './services/transcript';
+import { SeatProfiles, loadProfiles, loadSeats, recordRound, saveProfiles, saveSeats } from './services/profiles';
+import { DEFAULT_MATCH_SETTINGS, awardedPoints, loadMatchSettings, matchWinners, pickRoundPrompt, roundGains, saveMatchSettings } from './services/match';
+import { guessScore, matchesPrompt } from './services/guessMatch';
+import { KEYFRAME_INTERVAL_MS, StrokeBatcher, createStrokeBatcher, unpackKeyframe } from './services/strokeSync';
+import { clearRoom, getDisplayName, getSessionId, loadRoom, saveRoom, setDisplayName, updateRoom } from './services/roomSession';
 
-const INPUT_SAMPLE_RATE = 16000;
-const OUTPUT_SAMPLE_RATE = 24000;
-const SESSION_ID = Math.random().toString(36).substring(7);
+const SESSION_ID = getSessionId();
 const DEV_MODE = true; 
 
-const SYSTEM_PROMPT = `
-## 🎮 SYSTEM PROMPT — Sketch Master AI
-
-**Role:**
-You are Sketch Master AI, a live drawing game commentator and judge.
-You watch players draw in real time and provide short, witty, emotionally intelligent voice commentary that reacts to how they are drawing — speed, hesitation, confidence, corrections — not just what they draw.
-
-### 🎯 Core Behavior Rules
-* Speak in short, punchy sentences (5–12 words).
-* Do not narrate every stroke.
-* Comment only when something meaningful happens.
-* Tone: playful, observant, slightly dramatic.
-* You can judge a single player (SOLO) or compare two players (BATTLE/ONLINE).
-* If two players are present, use their metrics to decide who to praise or tease.
-
-### 🧠 Interpretation Rules
-Interpret numeric scores as normalized (0–1).
-Only speak if:
-- commentary.cooldown_active is false.
-- events contains at least one true value.
-- time.remaining_pct crosses 0.30, 0.15, or 0.05.
-
-### 🏆 Scoring Rules
-- Use the awardPoints tool frequently when you see good effort, confidence, or creative shapes.
-- In BATTLE/ONLINE, Player 1 is the primary/local user. Player 2 is the opponent.
-`;
-
-const awardPointsFunctionDeclaration: FunctionDeclaration = {
-  name: 'awardPoints',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Award points to a specific user for their drawing progress and creativity.',
-    properties: {
-      playerId: { type: Type.NUMBER, description: 'Player ID (1 or 2).' },
-      points: { type: Type.NUMBER, description: 'Points (10-100).' },
-      reason: { type: Type.STRING, description: 'Reason for award.' },
-    },
-    required: ['playerId', 'points', 'reason'],
-  },
-};
-
 const MetricRow: React.FC<{ label: string; value: number; trend?: string; warn?: boolean }> = ({ label, value, trend, warn }) => {
   const bars = Math.round(value * 10);
   const displayValue = value.toFixed(2);
@@ -70,13 +53,34 @@ const MetricRow: React.FC<{ label: string; value: number; trend?: string; warn?:
   );
 };
 
-const DebugOverlay: React.FC<{ metrics: any }> = ({ metrics }) => {
+const PlayerMetricsColumn: React.FC<{ name: string; metrics: PlayerMetrics }> = ({ name, metrics }) => (
+  <div className="min-w-[140px]">
+    <div className="text-[10px] font-black mb-1.5 text-white/60 truncate max-w-[140px]">{name}</div>
+    <MetricRow label="CONFIDENCE" value={metrics.confidence.score} trend={metrics.confidence.trend} />
+    <MetricRow label="EFFICIENCY" value={metrics.efficiency.score} warn={metrics.efficiency.panic_detected} />
+    <MetricRow label="CLARITY" value={metrics.clarity.score} />
+    <div className="flex justify-between text-[10px] font-black">
+      <span>VELOCITY</span>
+      <span>{metrics.strokes.velocity_px_per_ms} px/ms</span>
+    </div>
+    <div className="flex justify-between text-[10px] font-black mt-1">
+      <span>PAUSE AVG</span>
+      <span>{metrics.pauses.mean_seconds}s</span>
+    </div>
+    <div className="flex justify-between text-[10px] font-black mt-1">
+      <span>COVERAGE</span>
+      <span>{Math.round(metrics.coverage.ratio * 100)}%</span>
+    </div>
+  </div>
+);
+
+const DebugOverlay: React.FC<{ metrics: JudgeState | null; names: Record<string, string> }> = ({ metrics, names }) => {
   if (!DEV_MODE || !metrics) return null;
   return (
     <div className="fixed top-4 right-4 bg-black/90 backdrop-blur-sm text-green-400 p-3 rounded-lg border border-green-500/30 z-[100] shadow-2xl font-mono min-w-[160px] select-none">
-      <MetricRow label="CONFIDENCE" value={metrics.confidence.score} trend={metrics.confidence.trend} />
-      <MetricRow label="EFFICIENCY" value={metrics.efficiency.score} warn={metrics.efficiency.panic_detected} />
-      <MetricRow label="CLARITY" value={metrics.clarity.score} />
+      <div className="grid grid-cols-4 gap-4">
+        {Object.entries(metrics.players).map(([id, m]) => <PlayerMetricsColumn key={id} name={names[id] ?? id} metrics={m} />)}
+      </div>
       <div className="h-px bg-green-500/20 my-2" />
       <div className="flex justify-between text-[10px] font-black">
         <span>TIME</span>
@@ -92,101 +96,395 @@ const DebugOverlay: React.FC<{ metrics: any }> = ({ metrics }) => {
   );
 };
 
+const JudgePicker: React.FC<{ kind: JudgeKind; voice: boolean; onKind: (kind: JudgeKind) => void; onVoice: (voice: boolean) => void }> = ({ kind, voice, onKind, onVoice }) => (
+  <div className="flex flex-wrap items-center justify-center gap-3">
+    <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Judge</span>
+    <div className="flex bg-white/5 rounded-xl p-1 border border-white/10">
+      {JUDGE_KINDS.map(j => (
+        <button key={j.kind} title={j.description} onClick={() => onKind(j.kind)} className={`px-3 py-1 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${kind === j.kind ? 'bg-indigo-500 text-white' : 'text-white/40 hover:text-white/60'}`}>{j.label}</button>
+      ))}
+    </div>
+    <button onClick={() => onVoice(!voice)} title="Captions Only mutes the judge's voice; captions are always shown" className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${voice ? 'bg-indigo-500/20 border-indigo-400 text-indigo-300' : 'bg-transparent border-white/20 text-slate-500'}`}>{voice ? 'Voice On' : 'Captions Only'}</button>
+  </div>
+);
+
+const ErrorBanner: React.FC<{ message: string | null }> = ({ message }) => message ? (
+  <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-2xl text-sm text-red-300 text-center">{message}</div>
+) : null;
+
+const TEAM_ID = 'team'; // COOP scores and judges the whole room as one entry
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.LOBBY);
   const [gameMode, setGameMode] = useState<GameMode>(GameMode.SOLO);
   const [currentPrompt, setCurrentPrompt] = useState<DrawingPrompt>(PROMPTS[0]);
-  const [timeLeft, setTimeLeft] = useState(60);
-  const [scores, setScores] = useState<Record<number, number>>({ 1: 0, 2: 0 });
+  const [settings, setSettings] = useState<MatchSettings>(loadMatchSettings);
+  const [matchRound, setMatchRound] = useState(1);
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [scores, setScores] = useState<ScoreTable>({});
+  const [roundBase, setRoundBase] = useState<ScoreTable>({}); // match totals before this round
   const [isConnecting, setIsConnecting] = useState(false);
-  const [lastAward, setLastAward] = useState<{ reason: string; playerId: number } | null>(null);
-  const [activeTip, setActiveTip] = useState<{ tip: string; target: string } | null>(null);
+  const [lastAward, setLastAward] = useState<{ reason: string; playerId: string; points: number } | null>(null);
+  const [activeTip, setActiveTip] = useState<JudgeTip | null>(null);
+  const [guesses, setGuesses] = useState<Record<string, string>>({}); // the judge's latest guess per player
+  const [verdict, setVerdict] = useState<JudgeVerdict | null>(null);
+  const [wrongGuesses, setWrongGuesses] = useState<string[]>([]); // GUESS: what the judge got wrong, in order
+  const [solved, setSolved] = useState<{ guess: string; ms: number; strokes: number } | null>(null);
+  const [roundEvents, setRoundEvents] = useState<RoundEvent[]>([]);
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [commentCount, setCommentCount] = useState(0);
-  const [currentMetricsPayload, setCurrentMetricsPayload] = useState<any>(null);
+  const [currentMetricsPayload, setCurrentMetricsPayload] = useState<JudgeState | null>(null);
+  const [recordings, setRecordings] = useState<Record<string, DrawingRecording | null>>({});
+  const [replayPlayerId, setReplayPlayerId] = useState('1');
+  const [drawings, setDrawings] = useState<Record<string, string | null>>({});
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [judgeKind, setJudgeKind] = useState<JudgeKind>('gemini');
+  const [judgeVoice, setJudgeVoice] = useState(true);
+  const [judgeError, setJudgeError] = useState<string | null>(null);
+  const [lastComment, setLastComment] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptionItem[]>([]);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [transcriptCopied, setTranscriptCopied] = useState(false);
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [seatIds, setSeatIds] = useState<SeatProfiles>(loadSeats);
 
   // Online State
   const [roomCode, setRoomCode] = useState<string>('');
   const [isHost, setIsHost] = useState(false);
-  const [opponent, setOpponent] = useState<Player | null>(null);
+  const [roster, setRoster] = useState<Player[]>([]);
+  const [displayName, setDisplayNameState] = useState(getDisplayName);
+  const [isReady, setIsReady] = useState(false);
+  const [isSpectator, setIsSpectator] = useState(false);
   const [joinCodeInput, setJoinCodeInput] = useState('');
-  const [remoteCanvasData, setRemoteCanvasData] = useState<string | null>(null);
+  const [transportKind, setTransportKind] = useState<TransportKind>('broadcast');
+  const [relayUrl, setRelayUrl] = useState(defaultRelayUrl);
+  const [roomError, setRoomError] = useState<string | null>(null);
+  const [isJoiningRoom, setIsJoiningRoom] = useState(false);
+  const [offlineIds, setOfflineIds] = useState<string[]>([]);
 
   const canvasRef1 = useRef<CanvasHandle>(null);
   const canvasRef2 = useRef<CanvasHandle>(null);
-  const sessionRef = useRef<any>(null);
-  const audioContextsRef = useRef<{ input: AudioContext; output: AudioContext } | null>(null);
-  const nextStartTimeRef = useRef(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const judgeRef = useRef<JudgeSession | null>(null);
   const frameIntervalRef = useRef<number | null>(null);
   const syncIntervalRef = useRef<number | null>(null);
-  const channelRef = useRef<BroadcastChannel | null>(null);
+  const channelRef = useRef<RoomTransport | null>(null);
+  const remoteMetricsRef = useRef<Record<string, PlayerMetrics>>({});
+  // Read-only canvases that replay each rival's strokes, keyed by player id
+  const remoteCanvasRefs = useRef<Record<string, CanvasHandle | null>>({});
+  const strokeBatcherRef = useRef<StrokeBatcher | null>(null);
+  const clockRef = useRef(createClockSync());
+  const roundRef = useRef({ endsAt: 0, duration: DEFAULT_MATCH_SETTINGS.roundSeconds }); // endsAt is on the host's clock
+  const roundOverRef = useRef(false);
+  const cleanupTimerRef = useRef<number | null>(null);
+  const eventLogRef = useRef<RoundEvent[]>([]); // mirrors roundEvents for the history entry
+  const savedRoundIdRef = useRef<string | null>(null); // history entry of the round on the results screen
   const lastCommentTime = useRef(0);
+  const scoresRef = useRef(scores);
+  const gameStateRef = useRef(gameState);
+  const rosterRef = useRef(roster);
+  const lastSeenRef = useRef<Record<string, number>>({});
+  const pendingRestoreRef = useRef<{ drawing?: Keyframe } | null>(null);
+  // Set by local edits: the next sync tick saves the drawing and, at most every KEYFRAME_INTERVAL_MS, sends a keyframe
+  const canvasChangedRef = useRef({ keyframe: false, saved: false });
+  const keyframeRequestedRef = useRef(false); // someone joined mid-round and needs the whole drawing
+  scoresRef.current = scores;
+  gameStateRef.current = gameState;
+  rosterRef.current = roster;
+
+  const online = gameMode === GameMode.ONLINE || gameMode === GameMode.COOP;
+  const coop = gameMode === GameMode.COOP;
+  const guessing = gameMode === GameMode.GUESS;
+  const singlePlayer = gameMode === GameMode.SOLO || guessing;
+  // Room players are keyed by session id; players sharing one screen are '1' and '2'
+  const localId = online ? SESSION_ID : '1';
+  // Spectators are in the roster for presence, but never in scores, the judge or the canvas grid
+  const isPlaying = (p: Player) => p.role !== 'spectator';
+  // Local seats take the name and color of the profile sitting there
+  const seatProfile = (seat: number) => profiles.find(p => p.id === seatIds[seat]) ?? null;
+  const localPlayers: Player[] = [
+    { id: '1', name: seatProfile(0)?.name ?? 'You', score: 0, isReady: true },
+    { id: '2', name: seatProfile(1)?.name ?? 'Rival', score: 0, isReady: true }
+  ];
+  const participants = online ? roster.filter(isPlaying) : gameMode === GameMode.BATTLE ? localPlayers : localPlayers.slice(0, 1);
+  const seatOf = (id: string) => Math.max(0, participants.findIndex(p => p.id === id));
+  const profileColors: Record<string, string> = online ? {} : Object.fromEntries(participants.flatMap((p, seat) => seatProfile(seat) ? [[p.id, seatProfile(seat)!.color]] : []));
+  const colorOf = (id: string) => profileColors[id] ?? PLAYER_COLORS[seatOf(id) % PLAYER_COLORS.length];
+  const teamName = participants.map(p => p.name).join(' & ') || 'Team';
+  const nameOf = (id: string) => id === TEAM_ID ? teamName : participants.find(p => p.id === id)?.name ?? 'Player';
+  const collaborators = Object.fromEntries(participants.filter(p => p.id !== SESSION_ID).map(p => [p.id, { name: p.name, color: colorOf(p.id) }]));
+  const playerName = () => (seatProfile(0)?.name ?? displayName).trim().slice(0, MAX_NAME_LENGTH) || `Player ${SESSION_ID.slice(0, 3).toUpperCase()}`;
+
+  const changeProfiles = (next: Profile[]) => { setProfiles(next); saveProfiles(next); };
+
+  const changeSeat = (seat: number, id: string | null) => {
+    const next: SeatProfiles = seat === 0 ? [id, seatIds[1]] : [seatIds[0], id];
+    setSeatIds(next); saveSeats(next);
+  };
 
   const cleanupSession = useCallback(() => {
-    if (sessionRef.current) { sessionRef.current.close(); sessionRef.current = null; }
+    if (judgeRef.current) { judgeRef.current.close(); judgeRef.current = null; }
     if (frameIntervalRef.current) { clearInterval(frameIntervalRef.current); frameIntervalRef.current = null; }
     if (syncIntervalRef.current) { clearInterval(syncIntervalRef.current); syncIntervalRef.current = null; }
-    sourcesRef.current.forEach(source => { try { source.stop(); } catch(e) {} });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    if (strokeBatcherRef.current) { strokeBatcherRef.current.close(); strokeBatcherRef.current = null; }
   }, []);
 
-  const handleMessage = useCallback((msg: MultiplayerMessage) => {
+  const sendMessage = (body: MessageBody) => channelRef.current?.send(createMessage(body, SESSION_ID));
+
+  const applyScores = (next: ScoreTable) => { scoresRef.current = next; setScores(next); };
+
+  const applyRoster = (next: Player[]) => {
+    const now = Date.now();
+    next.forEach(p => { if (lastSeenRef.current[p.id] === undefined) lastSeenRef.current[p.id] = now; });
+    rosterRef.current = next; setRoster(next);
+  };
+
+  // Only the host edits the roster; everyone else mirrors what it broadcasts
+  const broadcastRoster = (next: Player[], matchSettings = settings) => {
+    applyRoster(next);
+    sendMessage({ type: 'ROSTER', payload: { players: next, prompt: currentPrompt, mode: gameMode, settings: matchSettings } });
+  };
+
+  const changeSettings = (next: MatchSettings) => {
+    setSettings(next);
+    saveMatchSettings(next);
+    if (isHost && roomCode) broadcastRoster(rosterRef.current, next);
+  };
+
+  const remainingMs = () => Math.max(0, roundRef.current.endsAt - clockRef.current.now());
+
+  const sendRoomState = () => {
+    sendMessage({ type: 'ROOM_STATE', payload: { phase: GameState.PLAYING, prompt: currentPrompt, ...roundRef.current, round: matchRound, base: roundBase, scores: scoresRef.current } });
+  };
+
+  const logEvent = (kind: RoundEventKind, playerId: string, text: string, points?: number) => {
+    const event: RoundEvent = { kind, playerId, text, ...(points !== undefined ? { points } : {}), at: roundRef.current.duration * 1000 - remainingMs() };
+    eventLogRef.current = [...eventLogRef.current, event];
+    setRoundEvents(eventLogRef.current);
+    // Events after the round ended (the verdict) still reach its history entry
+    if (roundOverRef.current && savedRoundIdRef.current) updateRound(savedRoundIdRef.current, { events: eventLogRef.current }).catch(() => {});
+  };
+
+  /** Applies a score change from the host's judge; `points` is negative for deductions. */
+  const applyAward = (playerId: string, points: number, reason: string) => {
+    logEvent(points < 0 ? 'deduct' : 'award', playerId, reason, points);
+    setLastAward({ reason, playerId, points });
+    if (points > 0) SoundManager.play('point');
+  };
+
+  const applyVerdict = (next: JudgeVerdict) => {
+    setVerdict(next);
+    logEvent('verdict', next.playerId, next.reason);
+  };
+
+  // In COOP everyone's strokes land on the one shared canvas
+  const canvasOf = (playerId: string) => coop ? canvasRef1.current : remoteCanvasRefs.current[playerId];
+
+  const handleMessage = (msg: MultiplayerMessage) => {
+    if (msg.senderId === SESSION_ID) return;
+    lastSeenRef.current[msg.senderId] = Date.now();
+    if (offlineIds.includes(msg.senderId)) setOfflineIds(prev => prev.filter(id => id !== msg.senderId));
     switch (msg.type) {
-      case 'PLAYER_JOINED':
-        if (isHost && !opponent) {
-          setOpponent({ id: msg.senderId, name: 'Opponent', score: 0, isReady: true });
-          SoundManager.play('point');
-          channelRef.current?.postMessage({ type: 'PLAYER_JOINED', senderId: SESSION_ID, payload: { isHost: true, prompt: currentPrompt } });
-        } else if (!isHost && msg.payload.isHost) {
-          setOpponent({ id: msg.senderId, name: 'Host', score: 0, isReady: true });
-          setCurrentPrompt(msg.payload.prompt);
-          SoundManager.play('point');
+      case 'PLAYER_JOINED': {
+        const { name, isReady: ready, role = 'player' } = msg.payload;
+        // Newcomers only get strokes drawn from now on, so everyone drawing sends a full keyframe
+        if (gameState === GameState.PLAYING) keyframeRequestedRef.current = true;
+        if (isHost) {
+          const known = rosterRef.current.some(p => p.id === msg.senderId);
+          const seats = rosterRef.current.filter(p => (p.role ?? 'player') === role).length;
+          // Spectators may walk in mid-round; players have to wait for the next one
+          const reason = role === 'spectator'
+            ? seats >= MAX_SPECTATORS && `The room has no spectator seats left (${MAX_SPECTATORS}).`
+            : gameState === GameState.PLAYING ? 'A round is in progress. Try again after it ends, or watch as a spectator.'
+            : seats >= MAX_PLAYERS && `Room is full (${MAX_PLAYERS} players).`;
+          if (!known && reason) {
+            sendMessage({ type: 'JOIN_REJECTED', payload: { to: msg.senderId, reason } });
+            break;
+          }
+          if (!known) SoundManager.play('point');
+          broadcastRoster(known
+            ? rosterRef.current.map(p => p.id === msg.senderId ? { ...p, name, isReady: ready } : p)
+            : [...rosterRef.current, { id: msg.senderId, name, score: 0, isReady: ready, isHost: false, role }]);
+          if (gameState === GameState.PLAYING) sendRoomState();
+        } else if (msg.payload.isHost && msg.payload.rejoining) {
+          // The host refreshed and lost its roster; introduce ourselves again
+          sendMessage({ type: 'PLAYER_JOINED', payload: { name: playerName(), isHost: false, isReady, role: isSpectator ? 'spectator' : 'player' } });
+          if (gameState === GameState.PLAYING) sendRoomState();
+        }
+        break;
+      }
+      case 'PLAYER_UPDATE':
+        if (isHost && rosterRef.current.some(p => p.id === msg.senderId)) {
+          broadcastRoster(rosterRef.current.map(p => p.id === msg.senderId ? { ...p, name: msg.payload.name, isReady: msg.payload.isReady } : p));
+        }
+        break;
+      case 'PLAYER_LEFT':
+        // Mid-round the seat is kept so the player's score stays on the board
+        if (isHost && gameState !== GameState.PLAYING) broadcastRoster(rosterRef.current.filter(p => p.id !== msg.senderId));
+        else setOfflineIds(prev => prev.includes(msg.senderId) ? prev : [...prev, msg.senderId]);
+        break;
+      case 'ROSTER': {
+        if (isHost) break;
+        const first = rosterRef.current.length === 0;
+        applyRoster(msg.payload.players);
+        // The host decides whether the room plays ONLINE or COOP
+        if (msg.payload.mode !== gameMode) { setGameMode(msg.payload.mode); updateRoom({ mode: msg.payload.mode }); }
+        if (gameState !== GameState.PLAYING) setCurrentPrompt(msg.payload.prompt);
+        setSettings(msg.payload.settings);
+        if (first) sendMessage({ type: 'CLOCK_PING', payload: { sentAt: Date.now() } });
+        break;
+      }
+      case 'JOIN_REJECTED':
+        if (msg.payload.to === SESSION_ID) { leaveRoom(msg.payload.reason, false); setGameState(GameState.LOBBY); }
+        break;
+      case 'ROOM_STATE':
+        if (msg.payload.phase === GameState.PLAYING && gameState !== GameState.PLAYING && !isConnecting) {
+          const { prompt, endsAt, duration, round, base, scores: table } = msg.payload;
+          setCurrentPrompt(prompt);
+          startGame({ follower: true, prompt, endsAt, duration, round, base, scores: table });
+        }
+        break;
+      case 'GAME_START':
+        if (!isHost) {
+          const { prompt, endsAt, duration, round, base } = msg.payload;
+          setCurrentPrompt(prompt);
+          startGame({ follower: true, prompt, endsAt, duration, round, base });
         }
         break;
-      case 'GAME_START': if (!isHost) { setCurrentPrompt(msg.payload.prompt); startGame(true); } break;
-      case 'SYNC_CANVAS': if (msg.senderId !== SESSION_ID) setRemoteCanvasData(msg.payload.data); break;
-      case 'SYNC_SCORE': if (msg.senderId !== SESSION_ID) setScores(prev => ({ ...prev, 2: msg.payload.score })); break;
-      case 'GAME_OVER': if (gameState === GameState.PLAYING) endGame(); break;
+      case 'STROKE_DELTA': canvasOf(msg.senderId)?.applyStrokeOps(msg.payload.ops, msg.senderId); break;
+      case 'CANVAS_KEYFRAME':
+        canvasOf(msg.senderId)?.loadKeyframe(msg.payload.keyframe, msg.senderId);
+        break;
+      case 'SYNC_METRICS': remoteMetricsRef.current[msg.senderId] = msg.payload.metrics; break;
+      case 'SCORE_UPDATE': {
+        if (isHost) break;
+        applyScores(msg.payload.scores);
+        const { award } = msg.payload;
+        if (award) applyAward(award.playerId, award.points, award.reason);
+        break;
+      }
+      case 'JUDGE_VERDICT': if (!isHost) applyVerdict(msg.payload); break;
+      case 'CLOCK_PING': if (isHost) sendMessage({ type: 'CLOCK_PONG', payload: { to: msg.senderId, sentAt: msg.payload.sentAt, hostTime: Date.now() } }); break;
+      case 'CLOCK_PONG': if (!isHost && msg.payload.to === SESSION_ID) clockRef.current.addSample(msg.payload.sentAt, msg.payload.hostTime, Date.now()); break;
+      case 'GAME_OVER':
+        if (isHost) break;
+        if (gameState === GameState.PLAYING) endGame(msg.payload.scores);
+        else if (gameState === GameState.RESULTS) applyScores(msg.payload.scores);
+        break;
     }
-  }, [isHost, opponent, currentPrompt, gameState]);
-
-  const connectToRoom = (code: string, asHost: boolean) => {
-    if (channelRef.current) channelRef.current.close();
-    const channel = new BroadcastChannel(`sketch-master-${code}`);
-    channel.onmessage = (e) => handleMessage(e.data);
-    channelRef.current = channel;
-    setRoomCode(code); setIsHost(asHost); setGameState(GameState.WAITING);
-    channel.postMessage({ type: 'PLAYER_JOINED', senderId: SESSION_ID, payload: {} });
   };
 
-  const getMetricsPayload = (phase: 'live' | 'end' = 'live') => {
-    const canvasMetrics = canvasRef1.current?.getMetrics();
-    if (!canvasMetrics) return null;
-    const time_remaining_pct = timeLeft / 60;
-    const confidence_score = Math.min(1, Math.max(0, (canvasMetrics.strokeCount / 40) + (canvasMetrics.averageSpeed / 200) - (canvasMetrics.hesitationSeconds / 10)));
-    const efficiency_score = Math.min(1, Math.max(0, (canvasMetrics.strokeCount / (canvasMetrics.totalDrawingTime / 1000 + 1)) * 5));
-    const clarity_score = Math.min(1, Math.max(0, (canvasMetrics.strokeCount / 25)));
+  // The transport outlives renders, so it always dispatches to the latest handler
+  const handleMessageRef = useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
+
+  const leaveRoom = (reason: string | null = null, announce = true) => {
+    if (channelRef.current) {
+      if (announce) sendMessage({ type: 'PLAYER_LEFT', payload: {} });
+      channelRef.current.close(); channelRef.current = null;
+    }
+    clearRoom();
+    cleanupSession();
+    lastSeenRef.current = {};
+    remoteMetricsRef.current = {};
+    clockRef.current.reset();
+    setRoomCode(''); applyRoster([]); setOfflineIds([]); setRoomError(reason);
+  };
+
+  const connectToRoom = async (code: string, asHost: boolean, rejoining = false, kind = transportKind, url = relayUrl, spectator = false) => {
+    if (!code) return;
+    if (channelRef.current) { channelRef.current.close(); channelRef.current = null; }
+    setRoomError(null); setIsJoiningRoom(true);
+    const events = {
+      onMessage: (msg: MultiplayerMessage) => handleMessageRef.current(msg),
+      onDisconnect: (reason: string) => { channelRef.current = null; leaveRoom(reason); setGameState(GameState.LOBBY); }
+    };
+    try {
+      let channel: RoomTransport;
+      try {
+        channel = await openTransport(kind, code, asHost && !rejoining, events, url);
+      } catch (err) {
+        // A host rejoining an emptied relay room has to create it again
+        if (!(asHost && rejoining)) throw err;
+        channel = await openTransport(kind, code, true, events, url);
+      }
+      channelRef.current = channel;
+      saveRoom({ code, isHost: asHost, transport: kind, relayUrl: url, spectator, mode: gameMode, ...(rejoining ? pendingRestoreRef.current : {}) });
+      const name = playerName();
+      lastSeenRef.current = {};
+      clockRef.current.reset();
+      setRoomCode(code); setIsHost(asHost); setIsReady(asHost || spectator); setIsSpectator(spectator); setOfflineIds([]); setGameState(GameState.WAITING);
+      applyRoster(asHost ? [{ id: SESSION_ID, name, score: 0, isReady: true, isHost: true }] : []);
+      channel.send(createMessage({ type: 'PLAYER_JOINED', payload: { name, isHost: asHost, isReady: asHost || spectator, rejoining, role: spectator ? 'spectator' : 'player' } }, SESSION_ID));
+    } catch (err) {
+      if (rejoining) clearRoom();
+      setRoomError(err instanceof Error ? err.message : 'Could not connect to the room');
+    } finally { setIsJoiningRoom(false); }
+  };
+
+  const toggleReady = () => {
+    const next = !isReady;
+    setIsReady(next);
+    sendMessage({ type: 'PLAYER_UPDATE', payload: { name: playerName(), isReady: next } });
+  };
+
+  useEffect(() => {
+    const saved = loadRoom();
+    if (!saved) return;
+    pendingRestoreRef.current = { drawing: saved.drawing };
+    setGameMode(saved.mode ?? GameMode.ONLINE); setTransportKind(saved.transport); setRelayUrl(saved.relayUrl);
+    connectToRoom(saved.code, saved.isHost, true, saved.transport, saved.relayUrl, saved.spectator);
+  }, []);
+
+  useEffect(() => {
+    if (!roomCode) return;
+    const interval = setInterval(() => {
+      channelRef.current?.send(createMessage({ type: 'HEARTBEAT', payload: { phase: gameStateRef.current } }, SESSION_ID));
+      // Keep refining the clock offset; the shortest round trip among recent pings wins
+      if (!isHost) channelRef.current?.send(createMessage({ type: 'CLOCK_PING', payload: { sentAt: Date.now() } }, SESSION_ID));
+      const now = Date.now();
+      const offline = rosterRef.current.filter(p => p.id !== SESSION_ID && now - (lastSeenRef.current[p.id] ?? now) > PEER_TIMEOUT_MS).map(p => p.id);
+      setOfflineIds(prev => prev.length === offline.length && prev.every(id => offline.includes(id)) ? prev : offline);
+      // Between rounds the host frees the seats of players who vanished
+      if (isHost && offline.length && gameStateRef.current !== GameState.PLAYING) {
+        const next = rosterRef.current.filter(p => !offline.includes(p.id));
+        applyRoster(next);
+        channelRef.current?.send(createMessage({ type: 'ROSTER', payload: { players: next, prompt: currentPrompt, mode: gameMode, settings } }, SESSION_ID));
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [roomCode, isHost, currentPrompt, gameMode, settings]);
+
+  useEffect(() => {
+    // Restore the drawing saved before a refresh once the canvas is mounted again
+    const restore = pendingRestoreRef.current;
+    if (gameState !== GameState.PLAYING || !restore) return;
+    pendingRestoreRef.current = null;
+    // loadRoom has already dropped a drawing that doesn't pass the keyframe check
+    if (restore.drawing) {
+      const { layers } = restore.drawing;
+      const doc = createDocument(unpackKeyframe(restore.drawing), DRAWING_WIDTH, DRAWING_HEIGHT, layers.length ? layers : undefined);
+      canvasRef1.current?.importJson(serializeDocument(doc));
+    }
+  }, [gameState]);
+
+  const getMetricsPayload = (phase: JudgeState['phase'] = 'live'): JudgeState | null => {
+    const time_remaining_pct = remainingMs() / (roundRef.current.duration * 1000);
+    const players: Record<string, PlayerMetrics> = {};
+    const local = canvasRef1.current?.getMetrics();
+    if (local) players[coop ? TEAM_ID : localId] = buildPlayerMetrics(local, time_remaining_pct);
+    else if (!isSpectator) return null;
+    if (gameMode === GameMode.BATTLE) {
+      const rival = canvasRef2.current?.getMetrics();
+      if (rival) players['2'] = buildPlayerMetrics(rival, time_remaining_pct);
+    } else if (online && !coop) {
+      rosterRef.current.forEach(p => { if (remoteMetricsRef.current[p.id]) players[p.id] = remoteMetricsRef.current[p.id]; });
+    }
 
     return {
       phase,
       time: { remaining_pct: time_remaining_pct },
-      confidence: {
-        score: parseFloat(confidence_score.toFixed(2)),
-        trend: canvasMetrics.averageSpeed > 60 ? "rising" : canvasMetrics.hesitationSeconds > 3 ? "falling" : "stable",
-        hesitation_seconds: canvasMetrics.hesitationSeconds,
-        redraw_rate: parseFloat((canvasMetrics.undoCount / (canvasMetrics.strokeCount + 1)).toFixed(2))
-      },
-      efficiency: {
-        score: parseFloat(efficiency_score.toFixed(2)),
-        panic_detected: time_remaining_pct < 0.15 && canvasMetrics.averageSpeed > 120
-      },
-      clarity: { 
-        score: parseFloat(clarity_score.toFixed(2)), 
-        recognizable_early: canvasMetrics.strokeCount > 15
-      },
+      players,
       commentary: {
         cooldown_active: (Date.now() - lastCommentTime.current) < 5000,
         comments_used: commentCount
@@ -194,126 +492,279 @@ const App: React.FC = () => {
     };
   };
 
+  // One labeled panel per player, so the judge can tell whose drawing is whose
   const stitchCanvases = async (): Promise<string | null> => {
-    const snap1 = canvasRef1.current?.getSnapshot();
-    let snap2 = (gameMode === GameMode.BATTLE ? canvasRef2.current?.getSnapshot() : (gameMode === GameMode.ONLINE ? remoteCanvasData : null));
-    if (!snap1) return null;
-    if (!snap2) return snap1;
-    return new Promise((resolve) => {
-      const img1 = new Image(), img2 = new Image();
-      let loaded = 0;
-      const onImageLoad = () => {
-        if (++loaded === 2) {
-          const canvas = document.createElement('canvas');
-          canvas.width = img1.width + img2.width + 20; canvas.height = img1.height;
-          const ctx = canvas.getContext('2d');
-          if (ctx) { 
-            ctx.fillStyle = '#0f172a'; ctx.fillRect(0, 0, canvas.width, canvas.height); 
-            ctx.drawImage(img1, 0, 0); ctx.drawImage(img2, img1.width + 20, 0); 
-            resolve(canvas.toDataURL('image/jpeg', 0.8).split(',')[1]); 
-          }
-        }
-      };
-      img1.onload = img2.onload = onImageLoad;
-      img1.src = `data:image/jpeg;base64,${snap1}`; img2.src = `data:image/jpeg;base64,${snap2}`;
+    const local = canvasRef1.current?.getSnapshot();
+    if (!local && !isSpectator) return null;
+    const panels = local ? [{ id: localId, data: local }] : [];
+    if (gameMode === GameMode.BATTLE) {
+      const rival = canvasRef2.current?.getSnapshot();
+      if (rival) panels.push({ id: '2', data: rival });
+    } else if (online && !coop) {
+      rosterRef.current.forEach(p => {
+        const data = p.id !== SESSION_ID && isPlaying(p) && remoteCanvasRefs.current[p.id]?.getSnapshot();
+        if (data) panels.push({ id: p.id, data });
+      });
+    }
+    if (panels.length <= 1) return panels[0]?.data ?? null;
+
+    const images = await Promise.all(panels.map(panel => new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img); img.onerror = reject;
+      img.src = `data:image/jpeg;base64,${panel.data}`;
+    }))).catch(() => null);
+    if (!images) return panels[0].data;
+
+    const gap = 20;
+    const cols = Math.ceil(Math.sqrt(panels.length)), rows = Math.ceil(panels.length / cols);
+    const scale = Math.min(1, 2560 / (cols * images[0].width));
+    const cellW = Math.round(images[0].width * scale), cellH = Math.round(images[0].height * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = cols * cellW + (cols - 1) * gap; canvas.height = rows * cellH + (rows - 1) * gap;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return panels[0].data;
+    ctx.fillStyle = '#0f172a'; ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.font = 'bold 28px sans-serif'; ctx.textBaseline = 'top';
+    images.forEach((img, i) => {
+      const x = (i % cols) * (cellW + gap), y = Math.floor(i / cols) * (cellH + gap);
+      ctx.drawImage(img, x, y, cellW, cellH);
+      const label = nameOf(panels[i].id);
+      ctx.fillStyle = colorOf(panels[i].id); ctx.fillRect(x, y, ctx.measureText(label).width + 24, 40);
+      ctx.fillStyle = '#000'; ctx.fillText(label, x + 12, y + 6);
     });
+    return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
   };
 
-  const startGame = async (isFollower = false) => {
-    setIsConnecting(true); setScores({ 1: 0, 2: 0 }); setCommentCount(0); lastCommentTime.current = 0;
-    if (gameMode === GameMode.ONLINE && isHost && !isFollower) {
-      channelRef.current?.postMessage({ type: 'GAME_START', senderId: SESSION_ID, payload: { prompt: currentPrompt } });
-    }
+  // Only the judge that awards points (the host's, online) calls this
+  const changeScore = (playerId: string, points: number, reason: string) => {
+    const next = { ...scoresRef.current, [playerId]: (scoresRef.current[playerId] ?? 0) + points };
+    applyScores(next);
+    applyAward(playerId, points, reason);
+    if (online) sendMessage({ type: 'SCORE_UPDATE', payload: { scores: next, award: { playerId, points, reason } } });
+  };
+
+  // Followers (ONLINE guests, or a host resuming after a refresh) take the round timing from the message that started them.
+  // `base` carries the match totals into a later round; `scores` is the live table when resuming mid-round.
+  const startGame = async ({ follower = false, prompt = currentPrompt, duration = settings.roundSeconds, endsAt, round = 1, base = {}, scores: table }: { follower?: boolean; prompt?: DrawingPrompt; duration?: number; endsAt?: number; round?: number; base?: ScoreTable; scores?: ScoreTable } = {}) => {
+    if (!online) clockRef.current.reset();
+    roundRef.current = { endsAt: endsAt ?? clockRef.current.now() + duration * 1000, duration };
+    roundOverRef.current = false;
+    rememberPrompt(prompt.id);
+    // COOP is judged as one team sharing the score
+    const players = coop ? [{ id: TEAM_ID, name: teamName }] : online ? rosterRef.current.filter(isPlaying) : participants;
+    const start: ScoreTable = Object.fromEntries(players.map(p => [p.id, base[p.id] ?? 0]));
+    setIsConnecting(true); setJudgeError(null); setCommentCount(0); setLastComment(null); setActiveTip(null); setLastAward(null); lastCommentTime.current = 0;
+    setMatchRound(round); setRoundBase(start);
+    eventLogRef.current = []; setRoundEvents([]); setGuesses({}); setVerdict(null); setWrongGuesses([]); setSolved(null); savedRoundIdRef.current = null; setGeneratedImageUrl(null); setTranscript([]); setTranscriptCopied(false);
+    applyScores(table ?? start);
+    remoteMetricsRef.current = {};
+    if (cleanupTimerRef.current) { clearTimeout(cleanupTimerRef.current); cleanupTimerRef.current = null; }
+    cleanupSession();
+    if (online && !isSpectator) strokeBatcherRef.current = createStrokeBatcher(ops => sendMessage({ type: 'STROKE_DELTA', payload: { ops } }));
+    const judge = judgeKind === 'local' ? createLocalJudge({ speak: judgeVoice }) : createGeminiJudge({ muted: !judgeVoice });
     try {
-      cleanupSession();
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      if (!audioContextsRef.current) audioContextsRef.current = { input: new AudioContext({ sampleRate: INPUT_SAMPLE_RATE }), output: new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE }) };
-      const { input: inputCtx, output: outputCtx } = audioContextsRef.current;
-      
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
-          tools: [{ functionDeclarations: [awardPointsFunctionDeclaration] }],
-          systemInstruction: SYSTEM_PROMPT.replace('${gameMode}', gameMode).replace('${currentPrompt}', currentPrompt.label),
+      judgeRef.current = await judge.start({ gameMode, prompt, players: players.map(({ id, name }) => ({ id, name })), awardsPoints: !online || isHost, listens: !isSpectator && !guessing }, {
+        onCommentary: ({ text }) => {
+          lastCommentTime.current = Date.now();
+          setCommentCount(prev => prev + 1);
+          if (text) setLastComment(text);
         },
-        callbacks: {
-          onopen: () => {
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(inputData.length);
-              for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
-              sessionPromise.then(s => s.sendRealtimeInput({ media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } }));
-            };
-            source.connect(scriptProcessor); scriptProcessor.connect(inputCtx.destination);
-            
-            frameIntervalRef.current = window.setInterval(async () => {
-              const metrics = getMetricsPayload();
-              setCurrentMetricsPayload(metrics);
-              const snap = await stitchCanvases();
-              if (snap) {
-                sessionPromise.then(s => {
-                  s.sendRealtimeInput({ media: { data: snap, mimeType: 'image/jpeg' } });
-                  s.sendRealtimeInput({ text: `DEVELOPER STATE:\n${JSON.stringify(metrics)}` });
-                });
-              }
-            }, 3000);
-
-            if (gameMode === GameMode.ONLINE) {
-              syncIntervalRef.current = window.setInterval(() => {
-                const snap = canvasRef1.current?.getSnapshot();
-                if (snap) channelRef.current?.postMessage({ type: 'SYNC_CANVAS', senderId: SESSION_ID, payload: { data: snap } });
-                channelRef.current?.postMessage({ type: 'SYNC_SCORE', senderId: SESSION_ID, payload: { score: scores[1] } });
-              }, 1000);
-            }
-
-            setGameState(GameState.PLAYING); setIsConnecting(false); setTimeLeft(60);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (msg.toolCall) {
-              for (const fc of msg.toolCall.functionCalls) {
-                if (fc.name === 'awardPoints') {
-                  const { points, reason, playerId } = fc.args as any;
-                  setScores(prev => ({ ...prev, [playerId]: prev[playerId] + points }));
-                  setLastAward({ reason, playerId });
-                  SoundManager.play('point');
-                }
-                sessionPromise.then(s => s.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result: 'ok' } } }));
-              }
-            }
-            const base64Audio = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio) {
-              lastCommentTime.current = Date.now();
-              setCommentCount(prev => prev + 1);
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              const buffer = await decodeAudioData(decode(base64Audio), outputCtx, OUTPUT_SAMPLE_RATE, 1);
-              const source = outputCtx.createBufferSource(); source.buffer = buffer; source.connect(outputCtx.destination); source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration; sourcesRef.current.add(source);
-            }
-          },
-          onclose: () => setGameState(GameState.LOBBY)
+        onAward: ({ playerId, points, reason }) => changeScore(playerId, awardedPoints(points, prompt, settings), reason),
+        onDeduct: ({ playerId, points, reason }) => changeScore(playerId, -points, reason),
+        onTip: (tip) => { setActiveTip(tip); logEvent('tip', tip.playerId, tip.tip); },
+        onGuess: ({ playerId, guess }) => {
+          setGuesses(prev => ({ ...prev, [playerId]: guess })); logEvent('guess', playerId, guess);
+          if (!guessing || roundOverRef.current) return;
+          if (!matchesPrompt(guess, prompt)) {
+            setWrongGuesses(prev => prev.some(g => g.toLowerCase() === guess.toLowerCase()) ? prev : [...prev, guess]);
+            return false;
+          }
+          // Quicker guesses on fewer strokes score more
+          const ms = duration * 1000 - remainingMs();
+          const strokes = canvasRef1.current?.getMetrics().strokeCount ?? 0;
+          setSolved({ guess, ms, strokes });
+          changeScore(playerId, awardedPoints(guessScore(ms, duration * 1000, strokes), prompt, settings), `Guessed "${guess}"`);
+          endGameRef.current();
+          return true;
+        },
+        onVerdict: (next) => {
+          applyVerdict(next);
+          if (online) sendMessage({ type: 'JUDGE_VERDICT', payload: next });
+        },
+        onTranscript: (chunk, newTurn) => setTranscript(prev => appendTranscript(prev, chunk, newTurn)),
+        onError: (err) => {
+          judgeRef.current = null;
+          setJudgeError(err.message);
+          // The host's round goes on without this player's commentary
+          if (online && follower) return;
+          cleanupSession();
+          setGameState(online && roomCode ? GameState.WAITING : GameState.LOBBY);
         }
       });
-      sessionRef.current = await sessionPromise;
-    } catch (err) { setIsConnecting(false); }
+    } catch (err) {
+      setJudgeError(err instanceof Error ? err.message : 'Could not start the judge');
+      // A follower's judge only comments, so its failure must not keep them out of the host's round
+      if (!(online && follower)) { setIsConnecting(false); return; }
+    }
+
+    // Guests are only started once the host's judge is ready, and the clock starts with them
+    if (online && isHost && !follower) {
+      roundRef.current = { endsAt: clockRef.current.now() + duration * 1000, duration };
+      sendMessage({ type: 'GAME_START', payload: { prompt, ...roundRef.current, round, base: start } });
+    }
+
+    frameIntervalRef.current = window.setInterval(async () => {
+      const metrics = getMetricsPayload();
+      setCurrentMetricsPayload(metrics);
+      const snap = await stitchCanvases();
+      if (snap) {
+        judgeRef.current?.pushFrame(snap);
+        if (metrics) judgeRef.current?.pushMetrics(metrics);
+      }
+    }, 3000);
+
+    if (online && !isSpectator) {
+      let lastKeyframeAt = 0;
+      canvasChangedRef.current = { keyframe: false, saved: false };
+      keyframeRequestedRef.current = false;
+      syncIntervalRef.current = window.setInterval(() => {
+        const changed = canvasChangedRef.current;
+        const keyframeDue = keyframeRequestedRef.current || (changed.keyframe && Date.now() - lastKeyframeAt >= KEYFRAME_INTERVAL_MS);
+        const keyframe = (keyframeDue || changed.saved) ? canvasRef1.current?.exportKeyframe() : undefined;
+        if (keyframe && keyframeDue) {
+          strokeBatcherRef.current?.flush();
+          sendMessage({ type: 'CANVAS_KEYFRAME', payload: { keyframe } });
+          lastKeyframeAt = Date.now();
+          changed.keyframe = false;
+          keyframeRequestedRef.current = false;
+        }
+        if (keyframe && changed.saved) { updateRoom({ drawing: keyframe }); changed.saved = false; }
+        const localMetrics = canvasRef1.current?.getMetrics();
+        if (localMetrics) sendMessage({ type: 'SYNC_METRICS', payload: { metrics: buildPlayerMetrics(localMetrics, remainingMs() / (duration * 1000)) } });
+        if (isHost) sendMessage({ type: 'SCORE_UPDATE', payload: { scores: scoresRef.current } });
+      }, 1000);
+    }
+
+    setGameState(GameState.PLAYING); setIsConnecting(false); setTimeLeft(Math.ceil(remainingMs() / 1000));
   };
 
   useEffect(() => {
     if (gameState !== GameState.PLAYING) return;
-    const interval = setInterval(() => setTimeLeft(prev => { if (prev <= 1) { endGame(); return 0; } return prev - 1; }), 1000);
+    const tick = () => {
+      const remaining = remainingMs();
+      setTimeLeft(Math.ceil(remaining / 1000));
+      if (remaining > 0 || roundOverRef.current) return;
+      // Guests wait for the host's final score table, unless it never arrives
+      if (online && !isHost && clockRef.current.now() < roundRef.current.endsAt + RESULTS_GRACE_MS) return;
+      endGameRef.current();
+    };
+    tick();
+    const interval = setInterval(tick, 250);
     return () => clearInterval(interval);
   }, [gameState]);
 
-  const endGame = () => {
+  // The canvases offered for replay and download on the results screen; rivals' read-only canvases hold their strokes too
+  const resultCanvases = (): Record<string, CanvasHandle | null> => {
+    if (gameMode === GameMode.BATTLE) return { [localId]: canvasRef1.current, '2': canvasRef2.current };
+    const rivals = gameMode === GameMode.ONLINE ? participants.filter(p => p.id !== SESSION_ID && isPlaying(p)) : [];
+    return { [localId]: canvasRef1.current, ...Object.fromEntries(rivals.map(p => [p.id, remoteCanvasRefs.current[p.id] ?? null])) };
+  };
+
+  /** `hostScores` is the host's final table when a guest's round is ended by GAME_OVER. */
+  const endGame = (hostScores?: ScoreTable) => {
+    if (roundOverRef.current) return;
+    roundOverRef.current = true;
+    if (hostScores) applyScores(hostScores);
     const finalMetrics = getMetricsPayload('end');
-    sessionRef.current?.sendRealtimeInput({ text: `DEVELOPER STATE (GAME OVER):\n${JSON.stringify(finalMetrics)}` });
+    if (finalMetrics) judgeRef.current?.pushMetrics(finalMetrics);
+    const canvases = Object.entries(resultCanvases());
+    setRecordings(Object.fromEntries(canvases.map(([id, canvas]) => [id, canvas?.getRecording() ?? null])));
+    setDrawings(Object.fromEntries(canvases.map(([id, canvas]) => [id, canvas?.exportJson() ?? null])));
+    setReplayPlayerId(localId); setExportError(null);
     setGameState(GameState.RESULTS);
-    if (gameMode === GameMode.ONLINE) channelRef.current?.postMessage({ type: 'GAME_OVER', senderId: SESSION_ID, payload: {} });
-    setTimeout(cleanupSession, 4000);
+    saveToHistory();
+    recordStats(finalMetrics);
+    if (online) {
+      if (isHost) sendMessage({ type: 'GAME_OVER', payload: { scores: scoresRef.current } });
+      updateRoom({ drawing: undefined });
+    }
+    // The judge stays connected a little longer for its closing line and verdict
+    cleanupTimerRef.current = window.setTimeout(cleanupSession, 8000);
+  };
+
+  const startMatch = () => startGame({ prompt: pickPrompt() });
+
+  const nextRound = () => startGame({ prompt: pickPrompt(), round: matchRound + 1, base: scoresRef.current });
+
+  const pickPrompt = () => {
+    const prompt = pickRoundPrompt(settings, currentPrompt);
+    setCurrentPrompt(prompt);
+    return prompt;
+  };
+  const saveToHistory = () => {
+    const entries = coop ? [{ id: TEAM_ID, name: teamName }] : participants.map(({ id, name }) => ({ id, name }));
+    const drawingOf = (id: string) => {
+      if (coop || id === localId) return canvasRef1.current?.exportJson();
+      return id === '2' && gameMode === GameMode.BATTLE ? canvasRef2.current?.exportJson() : remoteCanvasRefs.current[id]?.exportJson();
+    };
+    const drawings: Record<string, string> = {};
+    entries.forEach(({ id }) => { const json = drawingOf(id); if (json) drawings[id] = json; });
+    if (!Object.keys(drawings).length) return;
+    const record: RoundRecord = {
+      id: newId('round'),
+      date: Date.now(),
+      mode: gameMode,
+      prompt: currentPrompt,
+      round: matchRound,
+      rounds: settings.rounds,
+      players: entries,
+      drawings,
+      scores: roundGains(roundBase, scoresRef.current),
+      totals: scoresRef.current,
+      events: eventLogRef.current
+    };
+    savedRoundIdRef.current = record.id;
+    saveRound(record).catch(() => { savedRoundIdRef.current = null; }); // the round still plays out if storage is unavailable
+  };
+
+  // Lifetime stats for the profiles playing at this screen; wins count once, when a match ends
+  const recordStats = (metrics: JudgeState | null) => {
+    if (isSpectator) return;
+    const gains = roundGains(roundBase, scoresRef.current);
+    const winners = matchRound >= settings.rounds && !singlePlayer && !coop ? matchWinners(scoresRef.current) : [];
+    let next = profiles;
+    (gameMode === GameMode.BATTLE ? [0, 1] : [0]).forEach(seat => {
+      const profileId = seatIds[seat];
+      if (!profileId) return;
+      const entry = coop ? TEAM_ID : seat === 1 ? '2' : localId;
+      const m = metrics?.players[entry];
+      next = recordRound(next, profileId, {
+        mode: gameMode, prompt: currentPrompt, score: gains[entry] ?? 0,
+        won: winners.length === 1 && winners[0] === entry,
+        confidence: m?.confidence.score, efficiency: m?.efficiency.score
+      });
+    });
+    if (next !== profiles) changeProfiles(next);
+  };
+
+  const endGameRef = useRef(endGame);
+  endGameRef.current = endGame;
+
+  const exportName = (playerId: string) => `${currentPrompt.label}-${nameOf(playerId)}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  const downloadDrawing = async (playerId: string, format: 'svg' | 'png' | 'png-transparent' | 'json') => {
+    const json = drawings[playerId];
+    if (!json) return;
+    const name = exportName(playerId);
+    try {
+      const doc = parseDocument(json);
+      if (format === 'svg') downloadText(documentToSvg(doc), `${name}.svg`, 'image/svg+xml');
+      else if (format === 'json') downloadText(json, `${name}.json`);
+      else downloadBlob(await documentToPng(doc, { transparent: format === 'png-transparent' }), `${name}.png`);
+      setExportError(null);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Could not export the drawing');
+    }
   };
 
   const handleGenerateImage = async () => {
@@ -324,58 +775,172 @@ const App: React.FC = () => {
       if (!base64) return;
       const resp = await ai.models.generateContent({ model: 'gemini-2.5-flash-image', contents: { parts: [{ inlineData: { data: base64, mimeType: 'image/jpeg' } }, { text: `Cinematic digital painting of ${currentPrompt.label}` }] } });
       const imgPart = resp.candidates[0].content.parts.find(p => p.inlineData);
-      if (imgPart) setGeneratedImageUrl(`data:image/png;base64,${imgPart.inlineData.data}`);
+      if (imgPart) {
+        const url = `data:image/png;base64,${imgPart.inlineData.data}`;
+        setGeneratedImageUrl(url);
+        if (savedRoundIdRef.current) updateRound(savedRoundIdRef.current, { aiImage: url }).catch(() => {});
+      }
     } finally { setIsGeneratingImage(false); }
   };
 
+  const rivals = online ? participants.filter(p => p.id !== SESSION_ID) : [];
+  const spectators = roster.filter(p => !isPlaying(p));
+  const guestsReady = participants.length >= 2 && participants.every(p => p.isHost || (p.isReady && !offlineIds.includes(p.id)));
+  const backToRoom = () => setGameState(online && roomCode ? GameState.WAITING : GameState.LOBBY);
+  const names = Object.fromEntries(participants.map(p => [p.id, p.name]));
+  const multiRound = settings.rounds > 1;
+  const matchOver = matchRound >= settings.rounds;
+  const canAdvance = !matchOver && (!online || isHost);
+  const gains = roundGains(roundBase, scores);
+  const winners = matchWinners(scores);
+  // The mic at this screen belongs to the local player, or to both players in BATTLE
+  const captionLabels = { user: gameMode === GameMode.BATTLE ? 'Players' : nameOf(localId), model: 'Judge' };
+
+  // The judge's latest guess and tip, pinned to the canvas they are about
+  const judgeBubbles = (playerId: string) => (guesses[playerId] || activeTip?.playerId === playerId) && (
+    <div className="absolute top-12 left-4 max-w-[60%] flex flex-col items-start gap-2 pointer-events-none z-10">
+      {guesses[playerId] && <div key={guesses[playerId]} className="bg-white text-black px-3 py-1.5 rounded-2xl rounded-tl-none text-xs font-bold shadow-lg animate-fade-in">🤔 Is it… {guesses[playerId]}?</div>}
+      {activeTip?.playerId === playerId && <div key={activeTip.tip} className="bg-amber-400 text-black px-3 py-1.5 rounded-2xl text-xs font-bold shadow-lg animate-fade-in"><span className="text-[10px] font-black uppercase tracking-widest mr-2">Tip</span>{activeTip.tip}</div>}
+    </div>
+  );
+
+  const wrongGuessChip = (g: string) => <span key={g} className="px-3 py-1 rounded-full bg-red-500/10 border border-red-400/30 text-xs font-bold text-red-300 line-through">{g}</span>;
+
+  const copyTranscript = async () => {
+    try {
+      await navigator.clipboard.writeText(formatTranscript(transcript, captionLabels));
+      setTranscriptCopied(true);
+    } catch (e) {} // clipboard blocked: Download still works
+  };
+
   return (
     <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center p-4 sm:p-8 overflow-hidden relative">
-      <DebugOverlay metrics={currentMetricsPayload} />
+      <DebugOverlay metrics={currentMetricsPayload} names={names} />
       <header className="mb-6 text-center animate-fade-in relative z-10">
         <h1 className="text-4xl sm:text-6xl font-bungee text-indigo-400 drop-shadow-[0_0_15px_rgba(129,140,248,0.5)] tracking-tighter">SKETCH MASTER AI</h1>
         <div className="flex gap-2 justify-center mt-3">
-           {([GameMode.SOLO, GameMode.BATTLE, GameMode.ONLINE] as GameMode[]).map(mode => (
-             <button key={mode} className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${gameMode === mode ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-transparent border-white/20 text-slate-500'}`} onClick={() => { setGameMode(mode); setGameState(GameState.LOBBY); }}>{mode}</button>
+           {([GameMode.SOLO, GameMode.BATTLE, GameMode.ONLINE, GameMode.COOP, GameMode.GUESS] as GameMode[]).map(mode => (
+             <button key={mode} className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${gameMode === mode ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-transparent border-white/20 text-slate-500'}`} onClick={() => { if (roomCode) leaveRoom(); setGameMode(mode); setGameState(GameState.LOBBY); }}>{mode}</button>
            ))}
         </div>
+        {gameState === GameState.LOBBY && (
+          <div className="flex gap-2 justify-center mt-3">
+            <button onClick={() => setGameState(GameState.GALLERY)} className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border border-white/20 text-slate-400 hover:text-white transition-all">🖼 Gallery</button>
+            <button onClick={() => setGameState(GameState.LEADERBOARD)} className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border border-white/20 text-slate-400 hover:text-white transition-all">🏅 Leaderboard</button>
+          </div>
+        )}
       </header>
       
       <div className={`w-full max-w-7xl bg-slate-900/40 backdrop-blur-3xl rounded-[2.5rem] p-6 border border-white/5 shadow-3xl min-h-[600px] flex flex-col relative z-10 transition-all overflow-hidden`}>
         {gameState === GameState.LOBBY && (
           <div className="flex flex-col gap-6 w-full animate-fade-in py-6">
-            {gameMode === GameMode.ONLINE ? (
-              <div className="grid md:grid-cols-2 gap-8 items-center max-w-4xl mx-auto py-12">
+            {online ? (
+              <div className="flex flex-col gap-6 max-w-4xl mx-auto w-full py-6">
+              <div className="flex flex-wrap items-center justify-center gap-3">
+                <ProfilePicker label="Profile" profiles={profiles} selectedId={seatIds[0]} onSelect={id => changeSeat(0, id)} onProfilesChange={changeProfiles} />
+                {!seatProfile(0) && (
+                  <>
+                    <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Your Name</span>
+                    <input value={displayName} maxLength={MAX_NAME_LENGTH} onChange={e => { setDisplayNameState(e.target.value); setDisplayName(e.target.value); }} placeholder={playerName()} className="px-3 py-1.5 bg-black/40 rounded-lg text-sm font-bold border border-white/10 outline-none w-48" />
+                  </>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center justify-center gap-3">
+                <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Connection</span>
+                <div className="flex bg-white/5 rounded-xl p-1 border border-white/10">
+                  {TRANSPORT_KINDS.map(t => (
+                    <button key={t.kind} title={t.description} onClick={() => setTransportKind(t.kind)} className={`px-3 py-1 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${transportKind === t.kind ? 'bg-indigo-500 text-white' : 'text-white/40 hover:text-white/60'}`}>{t.label}</button>
+                  ))}
+                </div>
+                {transportKind === 'websocket' && (
+                  <input value={relayUrl} onChange={e => setRelayUrl(e.target.value)} placeholder="ws://host:8787" className="px-3 py-1.5 bg-black/40 rounded-lg text-xs font-mono border border-white/10 outline-none w-64" />
+                )}
+              </div>
+              <ErrorBanner message={roomError} />
+              <div className="grid md:grid-cols-2 gap-8 items-center">
                 <div className="p-8 bg-indigo-500/10 rounded-[2rem] border border-indigo-500/20 text-center space-y-4">
-                  <h3 className="font-bungee text-2xl">HOST A GAME</h3>
-                  <button onClick={() => connectToRoom(Math.random().toString(36).substring(7).toUpperCase(), true)} className="w-full py-4 bg-indigo-600 rounded-2xl font-bungee">CREATE ROOM</button>
+                  <h3 className="font-bungee text-2xl">{coop ? 'HOST A CO-OP' : 'HOST A GAME'}</h3>
+                  <button onClick={() => connectToRoom(Math.random().toString(36).substring(7).toUpperCase(), true)} disabled={isJoiningRoom} className="w-full py-4 bg-indigo-600 rounded-2xl font-bungee">CREATE ROOM</button>
                 </div>
                 <div className="p-8 bg-slate-800/50 rounded-[2rem] border border-white/5 text-center space-y-4">
                   <h3 className="font-bungee text-2xl text-slate-300">JOIN A GAME</h3>
                   <input value={joinCodeInput} onChange={e => setJoinCodeInput(e.target.value)} placeholder="ROOM CODE" className="w-full py-4 bg-black/40 rounded-2xl text-center font-bungee border border-white/10 outline-none" />
-                  <button onClick={() => connectToRoom(joinCodeInput.toUpperCase(), false)} className="w-full py-4 bg-slate-700 rounded-2xl font-bungee">JOIN ROOM</button>
+                  <div className="flex gap-3">
+                    <button onClick={() => connectToRoom(joinCodeInput.trim().toUpperCase(), false)} disabled={isJoiningRoom} className="flex-[2] py-4 bg-slate-700 rounded-2xl font-bungee">{isJoiningRoom ? 'CONNECTING...' : 'JOIN ROOM'}</button>
+                    <button onClick={() => connectToRoom(joinCodeInput.trim().toUpperCase(), false, false, transportKind, relayUrl, true)} disabled={isJoiningRoom} title="Watch every canvas live without drawing" className="flex-1 py-4 bg-white/5 border border-white/10 rounded-2xl font-bungee text-slate-300">WATCH</button>
+                  </div>
                 </div>
               </div>
+              </div>
             ) : (
               <>
-                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3">
-                  {PROMPTS.map(p => (
-                    <button key={p.id} onClick={() => setCurrentPrompt(p)} className={`p-4 rounded-3xl text-left border-2 transition-all ${currentPrompt.id === p.id ? 'border-indigo-500 bg-indigo-500/20 scale-105' : 'border-white/5 bg-white/5'}`}>
-                      <div className="font-bold text-sm mb-1">{p.label}</div>
-                      <div className="text-[10px] uppercase font-black opacity-50 tracking-widest">{p.difficulty}</div>
-                    </button>
-                  ))}
+                <div className="flex flex-wrap gap-3">
+                  <ProfilePicker label={gameMode === GameMode.BATTLE ? 'Player 1' : 'Player'} profiles={profiles} selectedId={seatIds[0]} onSelect={id => changeSeat(0, id)} onProfilesChange={changeProfiles} exclude={gameMode === GameMode.BATTLE ? seatIds[1] : null} />
+                  {gameMode === GameMode.BATTLE && <ProfilePicker label="Player 2" profiles={profiles} selectedId={seatIds[1]} onSelect={id => changeSeat(1, id)} onProfilesChange={changeProfiles} exclude={seatIds[0]} />}
                 </div>
-                <button onClick={() => startGame()} disabled={isConnecting} className="w-full py-6 bg-indigo-600 hover:bg-indigo-500 text-2xl font-bungee rounded-3xl shadow-2xl transition-all">{isConnecting ? 'CONNECTING...' : 'START COMPETITION'}</button>
+                <MatchSetup settings={settings} onChange={changeSettings} />
+                {settings.promptRule === 'fixed' && <PromptLibrary selected={currentPrompt} onSelect={setCurrentPrompt} />}
+                <JudgePicker kind={judgeKind} voice={judgeVoice} onKind={setJudgeKind} onVoice={setJudgeVoice} />
+                <ErrorBanner message={judgeError} />
+                <button onClick={startMatch} disabled={isConnecting} className="w-full py-6 bg-indigo-600 hover:bg-indigo-500 text-2xl font-bungee rounded-3xl shadow-2xl transition-all">{isConnecting ? 'CONNECTING...' : 'START COMPETITION'}</button>
               </>
             )}
           </div>
         )}
 
+        {gameState === GameState.GALLERY && <Gallery onBack={() => setGameState(GameState.LOBBY)} />}
+
+        {gameState === GameState.LEADERBOARD && <Leaderboard profiles={profiles} onBack={() => setGameState(GameState.LOBBY)} />}
+
         {gameState === GameState.WAITING && (
           <div className="flex-1 flex flex-col items-center justify-center p-12 text-center animate-fade-in">
              <h2 className="text-4xl font-bungee mb-2">ROOM CODE: <span className="text-indigo-400">{roomCode}</span></h2>
-             <p className="text-slate-400 mb-8">{opponent ? 'Opponent Joined!' : 'Waiting for Opponent...'}</p>
-             {opponent && isHost && <button onClick={() => startGame()} className="w-full max-w-xs py-3 bg-indigo-600 rounded-xl font-bungee">START GAME</button>}
+             <p className="text-slate-400 mb-6">{roster.length === 0 ? 'Joining room...' : `${participants.length} / ${MAX_PLAYERS} players${spectators.length ? ` · ${spectators.length} watching` : ''}`}</p>
+             <div className="w-full max-w-md flex flex-col gap-2 mb-6">
+               {participants.map((p, seat) => (
+                 <div key={p.id} className={`flex items-center gap-3 px-4 py-2.5 rounded-2xl bg-white/5 border border-white/5 ${offlineIds.includes(p.id) ? 'opacity-40' : ''}`}>
+                   <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: PLAYER_COLORS[seat % PLAYER_COLORS.length] }} />
+                   <span className="flex-1 text-left font-bold truncate">{p.name}{p.id === SESSION_ID && <span className="ml-2 text-[10px] text-slate-500 font-black uppercase tracking-widest">You</span>}</span>
+                   {p.isHost && <span className="text-[10px] text-indigo-400 font-black uppercase tracking-widest">Host</span>}
+                   <span className={`text-[10px] font-black uppercase tracking-widest ${offlineIds.includes(p.id) ? 'text-amber-400' : p.isHost || p.isReady ? 'text-emerald-400' : 'text-slate-500'}`}>
+                     {offlineIds.includes(p.id) ? 'Offline' : p.isHost || p.isReady ? 'Ready' : 'Not Ready'}
+                   </span>
+                 </div>
+               ))}
+               {spectators.length > 0 && (
+                 <div className="flex flex-wrap items-center gap-2 px-1 pt-2">
+                   <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Watching</span>
+                   {spectators.map(p => (
+                     <span key={p.id} className={`px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-xs font-bold ${offlineIds.includes(p.id) ? 'opacity-40' : ''}`}>{p.name}{p.id === SESSION_ID && ' (You)'}</span>
+                   ))}
+                 </div>
+               )}
+             </div>
+             {roster.length > 0 && (
+               <div className="w-full max-w-2xl mb-6">
+                 <MatchSetup settings={settings} onChange={changeSettings} readOnly={!isHost} />
+               </div>
+             )}
+             {isHost && settings.promptRule === 'fixed' && (
+               <div className="w-full mb-6 text-left">
+                 <div className="text-[10px] text-indigo-400 font-black uppercase tracking-widest mb-2">Prompt · <span className="text-white normal-case tracking-normal text-sm">{currentPrompt.label}</span></div>
+                 <PromptLibrary selected={currentPrompt} onSelect={setCurrentPrompt} />
+               </div>
+             )}
+             <div className="flex flex-col gap-4 w-full max-w-md items-center mb-6">
+               <JudgePicker kind={judgeKind} voice={judgeVoice} onKind={setJudgeKind} onVoice={setJudgeVoice} />
+               <ErrorBanner message={judgeError} />
+             </div>
+             <div className="flex gap-3 w-full max-w-md">
+               <button onClick={() => { leaveRoom(); setGameState(GameState.LOBBY); }} className="flex-1 py-3 bg-slate-700 rounded-xl font-bungee">LEAVE</button>
+               {isHost ? (
+                 <button onClick={startMatch} disabled={isConnecting || !guestsReady} title={guestsReady ? '' : 'Needs at least two players, all ready'} className="flex-[2] py-3 bg-indigo-600 rounded-xl font-bungee disabled:opacity-40">{isConnecting ? 'CONNECTING...' : 'START GAME'}</button>
+               ) : isSpectator ? (
+                 <div className="flex-[2] py-3 bg-white/5 border border-white/10 rounded-xl font-bungee text-slate-400">SPECTATING</div>
+               ) : (
+                 <button onClick={toggleReady} disabled={roster.length === 0} className={`flex-[2] py-3 rounded-xl font-bungee ${isReady ? 'bg-emerald-600' : 'bg-indigo-600'}`}>{isReady ? 'READY ✓' : 'READY UP'}</button>
+               )}
+             </div>
           </div>
         )}
 
@@ -383,48 +948,85 @@ const App: React.FC = () => {
           <div className="flex flex-col gap-6 animate-fade-in relative h-[600px]">
             <div className="flex justify-between items-center gap-4 px-2">
               <div className="flex-1 bg-indigo-500/10 p-4 rounded-3xl border border-indigo-500/20">
-                <div className="text-[10px] text-indigo-400 font-black uppercase tracking-widest">Goal</div>
-                <div className="text-2xl font-black">{currentPrompt.label}</div>
+                <div className="text-[10px] text-indigo-400 font-black uppercase tracking-widest">{guessing ? 'Secret · the judge must guess it' : 'Goal'}{settings.rounds > 1 && <span className="ml-2 text-slate-500">Round {matchRound} / {settings.rounds}</span>}</div>
+                <div className="text-2xl font-black">{currentPrompt.label}{isSpectator && <span className="ml-3 align-middle text-[10px] text-slate-400 font-black uppercase tracking-widest">Spectating</span>}</div>
               </div>
               <div className="flex gap-3">
                 <div className="bg-slate-800/80 p-4 rounded-3xl border border-white/5 text-center min-w-[100px]">
                   <div className="text-[10px] text-slate-500 uppercase font-black">Time</div>
                   <div className={`text-2xl font-bungee ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>{timeLeft}s</div>
+                  {timeLeft === 0 && online && !isHost && <div className="text-[9px] text-slate-500 uppercase font-black">Awaiting Host</div>}
                 </div>
-                {(gameMode !== GameMode.SOLO) && (
-                  <>
-                    <div className="bg-cyan-500/20 p-4 rounded-3xl border border-cyan-500/30 text-center min-w-[100px] font-bungee text-2xl text-cyan-400">{scores[1]}</div>
-                    <div className="bg-pink-500/20 p-4 rounded-3xl border border-pink-500/30 text-center min-w-[100px] font-bungee text-2xl text-pink-400">{scores[2]}</div>
-                  </>
-                )}
+                <button onClick={() => setShowCaptions(v => !v)} title={showCaptions ? 'Hide captions' : 'Show captions'} className={`self-center px-3 py-2 rounded-2xl text-xs font-black border transition-all ${showCaptions ? 'bg-indigo-500/20 border-indigo-400 text-indigo-300' : 'bg-transparent border-white/20 text-slate-500'}`}>CC</button>
+                {coop ? (
+                  <div className="bg-slate-800/80 p-4 rounded-3xl border border-white/5 text-center min-w-[100px]">
+                    <div className="text-[10px] text-slate-500 uppercase font-black">Team</div>
+                    <div className="text-2xl font-bungee text-emerald-400">{scores[TEAM_ID] ?? 0}</div>
+                  </div>
+                ) : !singlePlayer && <Scoreboard players={participants} scores={scores} localId={localId} offlineIds={offlineIds} colors={profileColors} />}
               </div>
             </div>
             
-            <div className={`flex-1 flex ${gameMode === GameMode.SOLO ? 'flex-col' : 'flex-col lg:flex-row'} gap-6`}>
-              <div className="flex-1 relative">
-                <DrawingCanvas ref={canvasRef1} isActive={true} />
-                <div className="absolute top-4 left-4 bg-cyan-500 text-black px-2 py-0.5 rounded text-[10px] font-black uppercase shadow-lg">You</div>
+            {showCaptions && <CaptionFeed items={transcript} labels={captionLabels} className="h-24 mx-2 shrink-0" />}
+            {judgeError && <div className="mx-2 shrink-0"><ErrorBanner message={judgeError} /></div>}
+
+            {guessing && wrongGuesses.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mx-2">
+                <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Wrong Guesses</span>
+                {wrongGuesses.map(wrongGuessChip)}
               </div>
-              {gameMode !== GameMode.SOLO && (
+            )}
+
+            <div className={`flex-1 flex ${singlePlayer ? 'flex-col' : 'flex-col lg:flex-row'} gap-6`}>
+              {(!isSpectator || coop) && (
+                <div className="flex-1 relative">
+                  <DrawingCanvas
+                    ref={canvasRef1}
+                    isActive={!isSpectator}
+                    readOnly={isSpectator}
+                    onStrokeOp={online && !isSpectator ? op => {
+                      strokeBatcherRef.current?.push(op);
+                      if (op.op !== 'cursor') canvasChangedRef.current = { keyframe: true, saved: true };
+                    } : undefined}
+                    collaborators={coop ? collaborators : undefined}
+                  />
+                  <div className="absolute top-4 left-4 text-black px-2 py-0.5 rounded text-[10px] font-black uppercase shadow-lg" style={{ backgroundColor: colorOf(localId) }}>{coop ? 'Team Canvas' : nameOf(localId)}</div>
+                  {judgeBubbles(coop ? TEAM_ID : localId)}
+                </div>
+              )}
+              {gameMode === GameMode.BATTLE && (
                 <div className="flex-1 relative bg-slate-800/50 rounded-[2.5rem] overflow-hidden border-4 border-slate-700">
-                  {gameMode === GameMode.ONLINE ? (
-                    remoteCanvasData ? (
-                      <img src={`data:image/jpeg;base64,${remoteCanvasData}`} className="w-full h-full object-cover" alt="Opponent" />
-                    ) : (
-                      <div className="flex h-full items-center justify-center text-xs font-black uppercase tracking-widest text-slate-500">Connecting Rival...</div>
-                    )
-                  ) : (
-                    <DrawingCanvas ref={canvasRef2} isActive={true} />
-                  )}
-                  <div className="absolute top-4 left-4 bg-pink-500 text-black px-2 py-0.5 rounded text-[10px] font-black uppercase shadow-lg">Rival</div>
+                  <DrawingCanvas ref={canvasRef2} isActive={true} />
+                  <div className="absolute top-4 left-4 text-black px-2 py-0.5 rounded text-[10px] font-black uppercase shadow-lg" style={{ backgroundColor: colorOf('2') }}>{nameOf('2')}</div>
+                  {judgeBubbles('2')}
+                </div>
+              )}
+              {online && !coop && (
+                <div className={`flex-1 grid gap-3 ${rivals.length > 4 ? 'grid-cols-3' : rivals.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} auto-rows-fr`}>
+                  {rivals.map(p => (
+                    <div key={p.id} className="relative min-h-0">
+                      <DrawingCanvas ref={handle => { remoteCanvasRefs.current[p.id] = handle; }} isActive={false} readOnly />
+                      <div className="absolute top-3 left-3 text-black px-2 py-0.5 rounded text-[10px] font-black uppercase shadow-lg" style={{ backgroundColor: colorOf(p.id) }}>{p.name} · {scores[p.id] ?? 0}</div>
+                      {judgeBubbles(p.id)}
+                      {offlineIds.includes(p.id) && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-black/60 text-xs font-black uppercase tracking-widest text-amber-400">Disconnected</div>
+                      )}
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
 
-            <div className="absolute bottom-32 left-1/2 -translate-x-1/2 w-fit z-40">
+            <div className="absolute bottom-32 left-1/2 -translate-x-1/2 w-fit z-40 flex flex-col items-center gap-3">
+               {lastComment && (
+                 <div key={commentCount} className="bg-black/80 backdrop-blur-xl px-6 py-3 rounded-2xl animate-fade-in shadow-2xl text-white text-center border border-white/10 max-w-md">
+                    <div className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.2em] mb-1">Judge</div>
+                    <div className="text-base font-bold leading-tight">{lastComment}</div>
+                 </div>
+               )}
                {lastAward && (
-                 <div className="bg-emerald-500/90 backdrop-blur-xl px-10 py-5 rounded-[2rem] animate-bounce-in shadow-2xl text-white text-center border border-emerald-300/50">
-                    <div className="text-[10px] font-black uppercase tracking-[0.2em] mb-1">POINT AWARDED P{lastAward.playerId}</div>
+                 <div className={`${lastAward.points < 0 ? 'bg-red-500/90 border-red-300/50' : 'bg-emerald-500/90 border-emerald-300/50'} backdrop-blur-xl px-10 py-5 rounded-[2rem] animate-bounce-in shadow-2xl text-white text-center border`}>
+                    <div className="text-[10px] font-black uppercase tracking-[0.2em] mb-1">{lastAward.points < 0 ? `${-lastAward.points} POINTS DEDUCTED` : 'POINT AWARDED'} · {nameOf(lastAward.playerId)}</div>
                     <div className="text-xl font-bold leading-tight">"{lastAward.reason}"</div>
                  </div>
                )}
@@ -434,27 +1036,91 @@ const App: React.FC = () => {
 
         {gameState === GameState.RESULTS && (
           <div className="flex-1 flex flex-col items-center justify-center p-12 text-center bg-slate-900/60 rounded-[2.5rem] animate-fade-in">
-            <div className="text-9xl mb-6 animate-bounce">🏆</div>
-            <h2 className="text-6xl font-bungee mb-10">FINAL SCORE</h2>
-            <div className="flex gap-16 mb-12">
-               <div className="text-7xl font-bungee text-cyan-400">{scores[1]}</div>
-               {gameMode !== GameMode.SOLO && <div className="text-7xl font-bungee text-pink-400 border-l border-white/10 pl-16">{scores[2]}</div>}
+            <div className="text-9xl mb-6 animate-bounce">{matchOver ? '🏆' : '🎨'}</div>
+            <h2 className="text-6xl font-bungee mb-4">{!matchOver ? `ROUND ${matchRound} OF ${settings.rounds}` : multiRound ? 'MATCH OVER' : 'FINAL SCORE'}</h2>
+            {matchOver && multiRound && !singlePlayer && !coop && (
+              <div className="text-xl font-black text-amber-300 mb-2">{winners.length === 0 ? 'No winner this time' : winners.length > 1 ? `Tie: ${winners.map(nameOf).join(' & ')}` : `${nameOf(winners[0])} wins the match!`}</div>
+            )}
+            {guessing && (
+              <div className="mb-2 max-w-xl">
+                <div className={`text-xl font-black ${solved ? 'text-emerald-400' : 'text-red-400'}`}>{solved ? `The judge guessed "${solved.guess}" in ${Math.round(solved.ms / 1000)}s, after ${solved.strokes} strokes` : `The judge never got "${currentPrompt.label}"`}</div>
+                {wrongGuesses.length > 0 && (
+                  <div className="mt-3 flex flex-wrap justify-center gap-2">
+                    {wrongGuesses.map(wrongGuessChip)}
+                  </div>
+                )}
+              </div>
+            )}
+            {verdict && (
+              <div className="mb-2 px-5 py-3 rounded-2xl bg-amber-400/10 border border-amber-300/40 max-w-xl">
+                <div className="text-[10px] text-amber-300 font-black uppercase tracking-widest">Judge's Pick · {nameOf(verdict.playerId)}</div>
+                <div className="text-sm font-bold">"{verdict.reason}"</div>
+              </div>
+            )}
+            <div className="flex justify-center w-full mt-6 mb-12">
+               {coop || singlePlayer ? (
+                 <div className="flex flex-col items-center gap-2">
+                   <div className={`text-7xl font-bungee ${coop ? 'text-emerald-400' : 'text-cyan-400'}`}>{scores[coop ? TEAM_ID : localId] ?? 0}</div>
+                   {coop && <div className="text-sm font-bold text-slate-400">{teamName}</div>}
+                   {multiRound && <div className="text-xs font-black uppercase tracking-widest text-emerald-400">+{gains[coop ? TEAM_ID : localId] ?? 0} this round</div>}
+                 </div>
+               ) : <Scoreboard players={participants} scores={scores} localId={localId} variant="final" gains={multiRound ? gains : undefined} colors={profileColors} />}
             </div>
+            {!matchOver && online && !isHost && <div className="mb-6 text-xs font-black uppercase tracking-widest text-slate-500">Waiting for the host to start round {matchRound + 1}</div>}
+            <div className="w-full max-w-xl mb-6"><ErrorBanner message={judgeError} /></div>
             <div className="flex flex-col sm:flex-row gap-6 w-full max-w-xl">
                {generatedImageUrl ? (
                  <div className="space-y-6 w-full animate-fade-in">
                     <img src={generatedImageUrl} className="w-full rounded-[2rem] border-4 border-white/10 shadow-3xl" />
-                    <button onClick={() => setGameState(GameState.LOBBY)} className="w-full py-5 bg-indigo-600 rounded-3xl font-bungee text-xl shadow-lg hover:bg-indigo-500 transition-all">NEW ROUND</button>
+                    <button onClick={canAdvance ? nextRound : backToRoom} disabled={isConnecting} className="w-full py-5 bg-indigo-600 rounded-3xl font-bungee text-xl shadow-lg hover:bg-indigo-500 transition-all">{canAdvance ? 'NEXT ROUND' : 'NEW ROUND'}</button>
                  </div>
                ) : (
                  <>
-                   <button onClick={handleGenerateImage} disabled={isGeneratingImage} className="flex-1 py-6 bg-emerald-600 rounded-3xl font-bungee text-xl shadow-lg hover:bg-emerald-500 transition-all flex items-center justify-center gap-3">
+                   {!isSpectator && <button onClick={handleGenerateImage} disabled={isGeneratingImage} className="flex-1 py-6 bg-emerald-600 rounded-3xl font-bungee text-xl shadow-lg hover:bg-emerald-500 transition-all flex items-center justify-center gap-3">
                      {isGeneratingImage ? <div className="w-6 h-6 border-4 border-white/30 border-t-white rounded-full animate-spin" /> : '✨ AI TRANSFORM'}
-                   </button>
-                   <button onClick={() => setGameState(GameState.LOBBY)} className="flex-1 py-6 bg-slate-700 rounded-3xl font-bungee text-xl shadow-lg hover:bg-slate-600 transition-all">LOBBY</button>
+                   </button>}
+                   {canAdvance && <button onClick={nextRound} disabled={isConnecting} className="flex-1 py-6 bg-indigo-600 rounded-3xl font-bungee text-xl shadow-lg hover:bg-indigo-500 transition-all">{isConnecting ? 'CONNECTING...' : 'NEXT ROUND'}</button>}
+                   <button onClick={backToRoom} title={matchOver ? undefined : 'Ends the match'} className="flex-1 py-6 bg-slate-700 rounded-3xl font-bungee text-xl shadow-lg hover:bg-slate-600 transition-all">{online && roomCode ? 'ROOM' : 'LOBBY'}</button>
                  </>
                )}
             </div>
+            {roundEvents.length > 0 && (
+              <div className="w-full max-w-3xl mt-10 space-y-3">
+                <div className="text-left text-[10px] text-indigo-400 font-black uppercase tracking-widest">Judge Events</div>
+                <EventLog events={roundEvents} nameOf={nameOf} colorOf={colorOf} />
+              </div>
+            )}
+            {transcript.length > 0 && (
+              <div className="w-full max-w-3xl mt-10 space-y-3 text-left">
+                <div className="flex items-center gap-2">
+                  <div className="mr-auto text-[10px] text-indigo-400 font-black uppercase tracking-widest">Transcript</div>
+                  <button onClick={copyTranscript} className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 transition-colors">{transcriptCopied ? 'Copied ✓' : 'Copy'}</button>
+                  <button onClick={() => downloadText(formatTranscript(transcript, captionLabels), `${currentPrompt.label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-transcript.txt`, 'text/plain')} className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 transition-colors">Download</button>
+                </div>
+                <CaptionFeed items={transcript} labels={captionLabels} className="max-h-64" />
+              </div>
+            )}
+            {!isSpectator && <div className="w-full max-w-3xl mt-10 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="text-[10px] text-indigo-400 font-black uppercase tracking-widest">Timelapse Replay</div>
+                {Object.keys(recordings).length > 1 && (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {Object.keys(recordings).map(id => (
+                      <button key={id} onClick={() => setReplayPlayerId(id)} className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${replayPlayerId === id ? 'text-black' : 'bg-transparent border-white/20 text-slate-500'}`} style={replayPlayerId === id ? { backgroundColor: colorOf(id), borderColor: colorOf(id) } : undefined}>{nameOf(id)}</button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {drawings[replayPlayerId] && (
+                <div className="flex gap-2 justify-end">
+                  <span className="mr-auto text-[10px] text-slate-500 font-black uppercase tracking-widest self-center">Download Drawing{exportError && <span className="ml-3 normal-case tracking-normal font-bold text-red-400">{exportError}</span>}</span>
+                  {([['svg', 'SVG'], ['png', 'PNG'], ['png-transparent', 'PNG (Transparent)'], ['json', 'JSON']] as const).map(([format, label]) => (
+                    <button key={format} onClick={() => downloadDrawing(replayPlayerId, format)} className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 transition-colors">{label}</button>
+                  ))}
+                </div>
+              )}
+              <ReplayPlayer recording={recordings[replayPlayerId] ?? null} title={exportName(replayPlayerId)} />
+            </div>}
           </div>
         )}
       </div>
@@ -0,0 +1,33 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptionItem } from '../types';
+import { TranscriptLabels } from '../services/transcript';
+
+interface Props {
+  items: TranscriptionItem[];
+  labels: TranscriptLabels;
+  className?: string;
+}
+
+const CaptionFeed: React.FC<Props> = ({ items, labels, className = '' }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Follow the newest caption unless the reader has scrolled back
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && el.scrollHeight - el.scrollTop - el.clientHeight < 80) el.scrollTop = el.scrollHeight;
+  }, [items]);
+
+  return (
+    <div ref={scrollRef} role="log" aria-live="polite" className={`overflow-y-auto flex flex-col gap-1.5 px-4 py-3 bg-black/60 rounded-2xl border border-white/10 ${className}`}>
+      {items.length === 0 && <div className="text-xs font-bold text-slate-500">Captions appear here when the judge speaks.</div>}
+      {items.map((item, i) => (
+        <div key={i} className={`flex gap-2 text-sm leading-snug ${item.type === 'model' ? 'text-white' : 'text-slate-400 italic'}`}>
+          <span className={`shrink-0 text-[10px] font-black uppercase tracking-widest pt-0.5 ${item.type === 'model' ? 'text-indigo-400' : 'text-slate-500'}`}>{labels[item.type]}</span>
+          <span>{item.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CaptionFeed;
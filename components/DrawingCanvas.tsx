@@ -1,33 +1,99 @@
 
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
 import { SoundManager } from '../services/soundManager';
+import { DEFAULT_LAYER_ID, DRAWING_HEIGHT, DRAWING_WIDTH, compositeLayers, createLayer, createLayerCanvas, drawStroke, layerOf, renderLayer } from '../services/strokeRenderer';
+import { createDocument, documentToPng, documentToSvg, parseDocument, serializeDocument } from '../services/drawingExport';
+import { createStabilizer, StrokeStabilizer } from '../services/stabilizer';
+import { analyzeDrawing, DrawingAnalytics } from '../services/drawingAnalytics';
+import { packKeyframe, packPoints, placeStrokes, unpackKeyframe, unpackPoints } from '../services/strokeSync';
+import { DrawingRecording, Keyframe, Layer, LineStyle, RecordingEvent, Smoothing, Stabilizer, Stroke, StrokeOp, StrokePoint, Tool } from '../types';
 
 interface Props {
   onSnapshot?: (base64: string) => void;
   isActive: boolean;
+  /** Shows someone else's drawing: no toolbar and no input, only `applyStrokeOps`/`loadKeyframe`. */
+  readOnly?: boolean;
+  /** Streams every local edit as it happens, for mirroring on another screen. */
+  onStrokeOp?: (op: StrokeOp) => void;
+  /**
+   * Makes this a shared canvas: strokes from these authors (keyed by the id passed to `applyStrokeOps`)
+   * merge with local ones and show a named cursor. Undo and clear only ever touch local strokes.
+   */
+  collaborators?: Record<string, { name: string; color: string }>;
 }
 
 export interface DrawingMetrics {
   strokeCount: number;
-  lastStrokeTime: number;
-  hesitationSeconds: number;
-  totalDrawingTime: number;
   clearCount: number;
   undoCount: number;
-  averageSpeed: number; // pixels per ms roughly
+  toolUsage: Partial<Record<Tool, number>>;
+  lastTool: Tool | null;
+  analytics: DrawingAnalytics;
 }
 
 export interface CanvasHandle {
   clear: () => void;
   getSnapshot: () => string;
   setColor: (color: string) => void;
+  setTool: (tool: Tool) => void;
   undo: () => void;
   redo: () => void;
+  getStrokes: () => Stroke[];
+  getRecording: () => DrawingRecording;
+  exportSvg: (options?: { transparent?: boolean }) => string;
+  exportPng: (options?: { transparent?: boolean }) => Promise<Blob>;
+  exportJson: () => string;
+  /** Only the strokes drawn here, with packed points; what `loadKeyframe` expects on the other end. */
+  exportKeyframe: () => Keyframe;
+  importJson: (json: string) => void;
   getMetrics: () => DrawingMetrics;
+  /** Replays ops streamed from another canvas's `onStrokeOp`; `author` identifies that canvas. */
+  applyStrokeOps: (ops: StrokeOp[], author: string) => void;
+  /** Replaces everything `author` has drawn with their exportKeyframe, without touching undo history. */
+  loadKeyframe: (keyframe: Keyframe, author: string) => void;
 }
 
-const MAX_HISTORY = 50;
-type LineStyle = 'solid' | 'dashed' | 'dotted';
+type HistoryEntry =
+  | { type: 'stroke'; stroke: Stroke; order?: string[] } // `order`: every stroke id just before it was undone
+  | { type: 'replace'; before: Stroke[]; after: Stroke[]; order: { before: string[]; after: string[] }; layers?: { before: Layer[]; after: Layer[] } };
+
+const TOOLS: { id: Tool; label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'eraser', label: 'Eraser' },
+  { id: 'fill', label: 'Fill' },
+  { id: 'line', label: 'Line' },
+  { id: 'rect', label: 'Rect' },
+  { id: 'ellipse', label: 'Ellipse' },
+  { id: 'eyedropper', label: 'Picker' },
+];
+
+const STABILIZERS: { id: Stabilizer; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'lazy', label: 'Lazy' },
+  { id: 'average', label: 'Avg' },
+];
+
+const SMOOTHINGS: { id: Smoothing; label: string }[] = [
+  { id: 'none', label: 'Off' },
+  { id: 'quadratic', label: 'Quad' },
+  { id: 'catmull-rom', label: 'Spline' },
+];
+
+const SHAPE_TOOLS: Tool[] = ['line', 'rect', 'ellipse'];
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 8;
+const VIEWPORT_BACKGROUND = '#0f172a';
+
+interface View {
+  zoom: number;
+  x: number; // CSS px offset of the drawing's origin inside the canvas element
+  y: number;
+}
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const toHex = (n: number) => n.toString(16).padStart(2, '0');
 
 const COLOR_PRESETS = [
   '#ffffff', '#000000', '#f43f5e', '#ec4899', '#d946ef', 
@@ -36,95 +102,352 @@ const COLOR_PRESETS = [
   '#f59e0b', '#f97316', '#ef4444'
 ];
 
-const DrawingCanvas = forwardRef<CanvasHandle, Props>(({ onSnapshot, isActive }, ref) => {
+const DrawingCanvas = forwardRef<CanvasHandle, Props>(({ onSnapshot, isActive, readOnly = false, onStrokeOp, collaborators }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const colorInputRef = useRef<HTMLInputElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
   const [color, setColor] = useState('#ffffff');
   const [lineWidth, setLineWidth] = useState(5);
   const [lineStyle, setLineStyle] = useState<LineStyle>('solid');
+  const [penOnly, setPenOnly] = useState(false);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [fillTolerance, setFillTolerance] = useState(20);
+  const [layers, setLayers] = useState<Layer[]>([createLayer(DEFAULT_LAYER_ID, 'Layer 1')]);
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_LAYER_ID);
+  const [showLayers, setShowLayers] = useState(false);
+  const [stabilizerMode, setStabilizerMode] = useState<Stabilizer>('off');
+  const [stabilizerStrength, setStabilizerStrength] = useState(50);
+  const [smoothing, setSmoothing] = useState<Smoothing>('catmull-rom');
+  const [zoomLevel, setZoomLevel] = useState(1);
+  const [isPanReady, setIsPanReady] = useState(false);
+  const [cursors, setCursors] = useState<Record<string, [number, number] | null>>({});
+  const shared = !!collaborators;
   
   // Metrics Tracking
-  const metrics = useRef<DrawingMetrics>({
+  const metrics = useRef<Omit<DrawingMetrics, 'analytics'>>({
     strokeCount: 0,
-    lastStrokeTime: Date.now(),
-    hesitationSeconds: 0,
-    totalDrawingTime: 0,
     clearCount: 0,
     undoCount: 0,
-    averageSpeed: 0
+    toolUsage: {},
+    lastTool: null
   });
 
-  const lastPos = useRef<{x: number, y: number} | null>(null);
-  const drawStartTime = useRef<number>(0);
-  
+  // Vector drawing model: the canvas is always rendered from `strokes`
+  const strokes = useRef<Stroke[]>([]);
+  // In-progress strokes keyed by pointerId, so simultaneous fingers never share a line
+  const activeStrokes = useRef<Map<number, Stroke>>(new Map());
+  const stabilizers = useRef<Map<number, StrokeStabilizer>>(new Map());
+  // Strokes other players are still drawing, and every stroke they have sent (undo can bring any back)
+  const incomingStrokes = useRef<Map<string, Stroke>>(new Map());
+  const receivedStrokes = useRef<Map<string, { author: string; stroke: Stroke }>>(new Map());
+  // Layer bitmaps without their in-progress strokes, kept only while something is being drawn
+  const liveBases = useRef<Map<string, HTMLCanvasElement>>(new Map());
+
   // Undo/Redo stacks
-  const undoStack = useRef<string[]>([]);
-  const redoStack = useRef<string[]>([]);
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const [, setHistoryVersion] = useState(0);
 
-  const saveState = () => {
-    if (!canvasRef.current) return;
-    const dataUrl = canvasRef.current.toDataURL();
-    undoStack.current.push(dataUrl);
-    if (undoStack.current.length > MAX_HISTORY) {
-      undoStack.current.shift();
-    }
-    redoStack.current = [];
+  // Layers are composited from one offscreen canvas each; the ref mirrors state for stable callbacks
+  const layersRef = useRef(layers);
+  const layerCanvases = useRef<Map<string, HTMLCanvasElement>>(new Map());
+
+  // Viewport: the display canvas is sized in device pixels, layers render at the same pixel ratio
+  const pixelRatio = useRef(1);
+  const view = useRef<View>({ zoom: 1, x: 0, y: 0 });
+  const isFitted = useRef(true);
+  const spaceHeld = useRef(false);
+  const panPointer = useRef<{ id: number; x: number; y: number } | null>(null);
+  const touchPoints = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const pinch = useRef<{ distance: number; mid: { x: number; y: number }; view: View } | null>(null);
+
+  // Timelapse recording of the round, starting when the canvas mounts
+  const recordingStart = useRef(Date.now());
+  const recordingEvents = useRef<RecordingEvent[]>([]);
+
+  const composite = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { zoom, x, y } = view.current;
+    const ratio = pixelRatio.current;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = VIEWPORT_BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(ratio * zoom, 0, 0, ratio * zoom, ratio * x, ratio * y);
+    compositeLayers(ctx, layersRef.current, layerCanvases.current, DRAWING_WIDTH, DRAWING_HEIGHT);
+  };
+
+  const setView = (next: View) => {
+    view.current = { ...next, zoom: clampZoom(next.zoom) };
+    setZoomLevel(view.current.zoom);
+    composite();
   };
 
-  const restoreState = (dataUrl: string) => {
+  const fitToView = () => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const zoom = Math.min(canvas.clientWidth / DRAWING_WIDTH, canvas.clientHeight / DRAWING_HEIGHT);
+    isFitted.current = true;
+    setView({ zoom, x: (canvas.clientWidth - DRAWING_WIDTH * zoom) / 2, y: (canvas.clientHeight - DRAWING_HEIGHT * zoom) / 2 });
+  };
 
-    const img = new Image();
-    img.onload = () => {
-      ctx.fillStyle = '#1e293b';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, 0, 0);
-    };
-    img.src = dataUrl;
+  // Zooms by `factor` while keeping the drawing point under (sx, sy) in place
+  const zoomAt = (sx: number, sy: number, factor: number) => {
+    const { zoom, x, y } = view.current;
+    const next = clampZoom(zoom * factor);
+    isFitted.current = false;
+    setView({ zoom: next, x: sx - (sx - x) * (next / zoom), y: sy - (sy - y) * (next / zoom) });
+  };
+
+  const toScreen = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const redraw = () => {
+    const ratio = pixelRatio.current;
+    liveBases.current.clear();
+    const next = new Map<string, HTMLCanvasElement>();
+    for (const layer of layersRef.current) {
+      let layerCanvas = layerCanvases.current.get(layer.id);
+      if (!layerCanvas || layerCanvas.width !== Math.round(DRAWING_WIDTH * ratio)) {
+        layerCanvas = createLayerCanvas(DRAWING_WIDTH, DRAWING_HEIGHT, ratio);
+      }
+      renderLayer(layerCanvas, strokes.current.filter(s => layerOf(s) === layer.id), ratio);
+      next.set(layer.id, layerCanvas);
+    }
+    layerCanvases.current = next;
+    composite();
+  };
+
+  const isOwn = (s: Stroke) => !receivedStrokes.current.has(s.id);
+  const ownStrokes = () => strokes.current.filter(isOwn);
+  const strokeOrder = () => strokes.current.map(s => s.id);
+
+  const emitState = () => onStrokeOp?.({ op: 'state', visible: ownStrokes().map(s => s.id), layers: layersRef.current, ...(shared ? { order: strokeOrder() } : {}) });
+
+  // Makes `visible` everything `author` has on the canvas, keeping the position of strokes already shown
+  const mergeAuthorStrokes = (author: string, visible: Stroke[], order?: string[]) => {
+    strokes.current = placeStrokes(strokes.current, s => receivedStrokes.current.get(s.id)?.author === author, visible, order);
+    recordingEvents.current.push({ type: 'history', t: Date.now(), visible: strokes.current.map(s => s.id) });
+  };
+
+  const updateLayers = (next: Layer[]) => {
+    layersRef.current = next;
+    setLayers(next);
+    if (!next.some(l => l.id === activeLayerId)) setActiveLayerId(next[next.length - 1].id);
+    emitState();
+  };
+
+  const patchLayer = (id: string, patch: Partial<Layer>) => {
+    updateLayers(layersRef.current.map(l => l.id === id ? { ...l, ...patch } : l));
+    composite();
+  };
+
+  const addLayer = () => {
+    const id = `layer-${Date.now().toString(36)}`;
+    updateLayers([...layersRef.current, createLayer(id, `Layer ${layersRef.current.length + 1}`)]);
+    setActiveLayerId(id);
+    redraw();
+  };
+
+  const moveLayer = (id: string, direction: 1 | -1) => {
+    const next = [...layersRef.current];
+    const index = next.findIndex(l => l.id === id);
+    const target = index + direction;
+    if (target < 0 || target >= next.length) return;
+    [next[index], next[target]] = [next[target], next[index]];
+    updateLayers(next);
+    composite();
+  };
+
+  const deleteLayer = (id: string) => {
+    if (layersRef.current.length <= 1) return;
+    const before = ownStrokes();
+    const orderBefore = strokeOrder();
+    const layersBefore = layersRef.current;
+    strokes.current = strokes.current.filter(s => layerOf(s) !== id);
+    updateLayers(layersRef.current.filter(l => l.id !== id));
+    pushHistory({ type: 'replace', before, after: ownStrokes(), order: { before: orderBefore, after: strokeOrder() }, layers: { before: layersBefore, after: layersRef.current } });
+    recordHistory();
+    redraw();
+  };
+
+  const getDocument = () => createDocument(strokes.current, DRAWING_WIDTH, DRAWING_HEIGHT, layersRef.current);
+
+  const recordHistory = () => {
+    recordingEvents.current.push({ type: 'history', t: Date.now(), visible: strokes.current.map(s => s.id) });
+    emitState();
+  };
+
+  const pushHistory = (entry: HistoryEntry) => {
+    undoStack.current.push(entry);
+    redoStack.current = [];
+    setHistoryVersion(v => v + 1);
   };
 
   useImperativeHandle(ref, () => ({
     clear: () => {
-      saveState();
       metrics.current.clearCount++;
-      const ctx = canvasRef.current?.getContext('2d');
-      if (ctx && canvasRef.current) {
-        ctx.fillStyle = '#1e293b';
-        ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
+      // Locked layers survive a clear, and so does everything other players drew
+      const locked = new Set(layersRef.current.filter(l => l.locked).map(l => l.id));
+      const own = ownStrokes();
+      const kept = own.filter(s => locked.has(layerOf(s)));
+      if (kept.length !== own.length) {
+        const orderBefore = strokeOrder();
+        strokes.current = strokes.current.filter(s => !isOwn(s) || kept.includes(s));
+        pushHistory({ type: 'replace', before: own, after: kept, order: { before: orderBefore, after: strokeOrder() } });
+        recordHistory();
       }
+      redraw();
     },
     setColor: (newColor: string) => {
       setColor(newColor);
     },
+    setTool: (newTool: Tool) => {
+      setTool(newTool);
+    },
     undo: () => {
-      if (undoStack.current.length === 0 || !canvasRef.current) return;
+      const entry = undoStack.current.pop();
+      if (!entry) return;
       metrics.current.undoCount++;
-      const currentState = canvasRef.current.toDataURL();
-      redoStack.current.push(currentState);
-      const previousState = undoStack.current.pop()!;
-      restoreState(previousState);
+      if (entry.type === 'stroke') {
+        entry.order = strokeOrder();
+        strokes.current = strokes.current.filter(s => s.id !== entry.stroke.id);
+      } else {
+        // Own strokes go back where they were, between the strokes of other players
+        strokes.current = placeStrokes(strokes.current, isOwn, entry.before, entry.order.before);
+        if (entry.layers) updateLayers(entry.layers.before);
+      }
+      redoStack.current.push(entry);
+      recordHistory();
+      setHistoryVersion(v => v + 1);
+      redraw();
     },
     redo: () => {
-      if (redoStack.current.length === 0 || !canvasRef.current) return;
-      const currentState = canvasRef.current.toDataURL();
-      undoStack.current.push(currentState);
-      const nextState = redoStack.current.pop()!;
-      restoreState(nextState);
+      const entry = redoStack.current.pop();
+      if (!entry) return;
+      if (entry.type === 'stroke') {
+        strokes.current = placeStrokes(strokes.current, isOwn, [...ownStrokes(), entry.stroke], entry.order);
+      } else {
+        strokes.current = placeStrokes(strokes.current, isOwn, entry.after, entry.order.after);
+        if (entry.layers) updateLayers(entry.layers.after);
+      }
+      undoStack.current.push(entry);
+      recordHistory();
+      setHistoryVersion(v => v + 1);
+      redraw();
     },
     getSnapshot: () => {
-      if (!canvasRef.current) return '';
-      return canvasRef.current.toDataURL('image/jpeg', 0.8).split(',')[1];
+      // Flattened at the logical size, independent of zoom, pan and screen density
+      const snapshot = createLayerCanvas(DRAWING_WIDTH, DRAWING_HEIGHT);
+      const ctx = snapshot.getContext('2d');
+      if (!ctx) return '';
+      compositeLayers(ctx, layersRef.current, layerCanvases.current, DRAWING_WIDTH, DRAWING_HEIGHT);
+      return snapshot.toDataURL('image/jpeg', 0.8).split(',')[1];
+    },
+    getStrokes: () => strokes.current,
+    getRecording: () => ({
+      version: 1,
+      width: DRAWING_WIDTH,
+      height: DRAWING_HEIGHT,
+      startedAt: recordingStart.current,
+      duration: Date.now() - recordingStart.current,
+      events: [...recordingEvents.current],
+      layers: layersRef.current
+    }),
+    exportSvg: (options) => documentToSvg(getDocument(), options),
+    exportPng: (options) => documentToPng(getDocument(), options),
+    exportJson: () => serializeDocument(getDocument()),
+    exportKeyframe: () => packKeyframe(ownStrokes(), layersRef.current),
+    importJson: (json: string) => {
+      const doc = parseDocument(json);
+      const importedLayers = doc.layers ?? [createLayer(DEFAULT_LAYER_ID, 'Layer 1')];
+      const before = ownStrokes();
+      const orderBefore = strokeOrder();
+      strokes.current = placeStrokes(strokes.current, isOwn, doc.strokes);
+      pushHistory({ type: 'replace', before, after: doc.strokes, order: { before: orderBefore, after: strokeOrder() }, layers: { before: layersRef.current, after: importedLayers } });
+      updateLayers(importedLayers);
+      // Imported strokes appear instantly in the timelapse rather than replaying their old timing
+      const now = Date.now();
+      doc.strokes.forEach(stroke => recordingEvents.current.push({
+        type: 'stroke', t: now, stroke: { ...stroke, points: stroke.points.map(p => ({ ...p, t: now })) }
+      }));
+      recordHistory();
+      redraw();
     },
     getMetrics: () => {
-      // Calculate final hesitation before returning
-      if (!isDrawing) {
-        metrics.current.hesitationSeconds = (Date.now() - metrics.current.lastStrokeTime) / 1000;
+      const analytics = analyzeDrawing({
+        // Other players' strokes carry arrival times, not drawing times, so timing only covers our own
+        drawn: recordingEvents.current.flatMap(ev => ev.type === 'stroke' && isOwn(ev.stroke) ? [ev.stroke] : []),
+        visible: strokes.current,
+        undoCount: metrics.current.undoCount,
+        clearCount: metrics.current.clearCount,
+        startedAt: recordingStart.current,
+        now: Date.now(),
+        width: DRAWING_WIDTH,
+        height: DRAWING_HEIGHT,
+        drawing: activeStrokes.current.size > 0
+      });
+      return { ...metrics.current, toolUsage: { ...metrics.current.toolUsage }, analytics };
+    },
+    applyStrokeOps: (ops: StrokeOp[], author: string) => {
+      const touched = new Set<string>();
+      let structural = false;
+      for (const op of ops) {
+        if (op.op === 'begin') {
+          const stroke: Stroke = { ...op.stroke, points: unpackPoints(op) };
+          receivedStrokes.current.set(stroke.id, { author, stroke });
+          incomingStrokes.current.set(stroke.id, stroke);
+          strokes.current = [...strokes.current, stroke];
+          recordingEvents.current.push({ type: 'stroke', t: stroke.points[0]?.t ?? Date.now(), stroke });
+          touched.add(layerOf(stroke));
+        } else if (op.op === 'points') {
+          const stroke = incomingStrokes.current.get(op.id);
+          if (!stroke) continue; // begun before we joined; the next keyframe brings it
+          const points = unpackPoints(op);
+          if (SHAPE_TOOLS.includes(stroke.tool!)) stroke.points[1] = points[points.length - 1] ?? stroke.points[1];
+          else stroke.points.push(...points);
+          touched.add(layerOf(stroke));
+        } else if (op.op === 'end') {
+          const stroke = incomingStrokes.current.get(op.id);
+          incomingStrokes.current.delete(op.id);
+          if (stroke) touched.add(layerOf(stroke));
+        } else if (op.op === 'cursor') {
+          setCursors(prev => ({ ...prev, [author]: op.at }));
+        } else {
+          // A stroke that is gone from the author's canvas is no longer being drawn, even if its end op was lost
+          incomingStrokes.current.forEach((stroke, id) => {
+            if (receivedStrokes.current.get(id)?.author === author && !op.visible.includes(id)) incomingStrokes.current.delete(id);
+          });
+          const known = op.visible.map(id => receivedStrokes.current.get(id)).filter(r => r?.author === author);
+          mergeAuthorStrokes(author, known.map(r => r!.stroke), op.order);
+          // Shared canvases hide the layers panel, so everyone draws on the base layer and layer lists are ignored
+          if (!shared) { layersRef.current = op.layers; setLayers(op.layers); }
+          structural = true;
+        }
       }
-      return { ...metrics.current };
+      if (structural) redraw();
+      else touched.forEach(paintLive);
+      // A cached base is only valid while a stroke on its layer is still coming in
+      touched.forEach(layerId => {
+        if (![...incomingStrokes.current.values()].some(s => layerOf(s) === layerId)) liveBases.current.delete(layerId);
+      });
+    },
+    loadKeyframe: (keyframe: Keyframe, author: string) => {
+      const received = unpackKeyframe(keyframe);
+      // Strokes still being drawn keep receiving points, so they must be the keyframe's objects
+      received.forEach(stroke => {
+        if (!receivedStrokes.current.has(stroke.id)) recordingEvents.current.push({ type: 'stroke', t: Date.now(), stroke });
+        receivedStrokes.current.set(stroke.id, { author, stroke });
+        if (incomingStrokes.current.has(stroke.id)) incomingStrokes.current.set(stroke.id, stroke);
+      });
+      mergeAuthorStrokes(author, received);
+      if (!shared) {
+        layersRef.current = keyframe.layers.length ? keyframe.layers : [createLayer(DEFAULT_LAYER_ID, 'Layer 1')];
+        setLayers(layersRef.current);
+      }
+      redraw();
     }
   }));
 
@@ -135,101 +458,387 @@ const DrawingCanvas = forwardRef<CanvasHandle, Props>(({ onSnapshot, isActive },
     const resize = () => {
       const parent = canvas.parentElement;
       if (parent) {
-        const tempData = canvas.toDataURL();
-        canvas.width = parent.clientWidth;
-        canvas.height = parent.clientHeight;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.fillStyle = '#1e293b';
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          const img = new Image();
-          img.onload = () => ctx.drawImage(img, 0, 0);
-          img.src = tempData;
-        }
+        pixelRatio.current = Math.min(2, window.devicePixelRatio || 1);
+        const width = Math.round(parent.clientWidth * pixelRatio.current);
+        const height = Math.round(parent.clientHeight * pixelRatio.current);
+        if (width === canvas.width && height === canvas.height) return;
+        canvas.width = width;
+        canvas.height = height;
+        redraw();
+        if (isFitted.current) fitToView();
       }
     };
 
+    // Registered natively: React's wheel listener is passive and can't stop page scrolling
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { x, y } = toScreen(e);
+      zoomAt(x, y, Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.002)));
+    };
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || (e.target as HTMLElement)?.closest?.('input, textarea')) return;
+      if (e.type === 'keydown') e.preventDefault();
+      spaceHeld.current = e.type === 'keydown';
+      setIsPanReady(spaceHeld.current);
+    };
+
+    // Layout changes in the page (captions, guess row, rival grid) resize the canvas without a window resize
+    const observer = new ResizeObserver(resize);
+    if (canvas.parentElement) observer.observe(canvas.parentElement);
     window.addEventListener('resize', resize);
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    if (!readOnly) canvas.addEventListener('wheel', onWheel, { passive: false });
     resize();
-    return () => window.removeEventListener('resize', resize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', resize);
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+      canvas.removeEventListener('wheel', onWheel);
+    };
   }, []);
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isActive) return;
-    saveState();
-    setIsDrawing(true);
-    metrics.current.strokeCount++;
-    drawStartTime.current = Date.now();
-    SoundManager.play('drawStart');
-    draw(e);
+  const getPoint = (e: PointerEvent | React.PointerEvent): StrokePoint => {
+    const screen = toScreen(e);
+    const { zoom, x, y } = view.current;
+    const point: StrokePoint = { x: (screen.x - x) / zoom, y: (screen.y - y) / zoom, t: Date.now() };
+    // Mice report a constant 0.5 while pressed, so only pens carry real pressure
+    if (e.pointerType === 'pen') point.p = e.pressure;
+    return point;
   };
 
-  const stopDrawing = () => {
-    if (isDrawing) {
-      SoundManager.play('drawEnd');
-      metrics.current.lastStrokeTime = Date.now();
-      metrics.current.totalDrawingTime += (Date.now() - drawStartTime.current);
+  const acceptsPointer = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return false;
+    if (e.pointerType !== 'touch') return true;
+    if (penOnly) return false;
+    // Palm rejection: a resting hand must not draw while the stylus is down
+    return ![...activeStrokes.current.values()].some(s => s.points.some(p => p.p !== undefined));
+  };
+
+  // In-progress strokes are redrawn whole on every move (curve fitting and dash patterns
+  // depend on the full path), over a cached bitmap of the layer's committed strokes
+  const paintLive = (layerId: string) => {
+    const layerCanvas = layerCanvases.current.get(layerId);
+    const ctx = layerCanvas?.getContext('2d');
+    if (!layerCanvas || !ctx) return;
+    const live = [...activeStrokes.current.values(), ...incomingStrokes.current.values()].filter(s => layerOf(s) === layerId);
+    const ratio = pixelRatio.current;
+    let base = liveBases.current.get(layerId);
+    if (!base) {
+      base = createLayerCanvas(DRAWING_WIDTH, DRAWING_HEIGHT, ratio);
+      renderLayer(base, strokes.current.filter(s => layerOf(s) === layerId && !live.includes(s)), ratio);
+      liveBases.current.set(layerId, base);
     }
-    setIsDrawing(false);
-    lastPos.current = null;
-    const ctx = canvasRef.current?.getContext('2d');
-    ctx?.beginPath();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, layerCanvas.width, layerCanvas.height);
+    ctx.drawImage(base, 0, 0);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    live.forEach(stroke => drawStroke(ctx, stroke));
+    composite();
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || !isActive || !canvasRef.current) return;
-    const ctx = canvasRef.current.getContext('2d');
+  const recordToolUse = (used: Tool) => {
+    metrics.current.toolUsage[used] = (metrics.current.toolUsage[used] ?? 0) + 1;
+    metrics.current.lastTool = used;
+  };
+
+  const pickColor = (e: React.PointerEvent) => {
+    const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
+    const { x, y } = toScreen(e);
+    const ratio = pixelRatio.current;
+    const [r, g, b] = ctx.getImageData(Math.floor(x * ratio), Math.floor(y * ratio), 1, 1).data;
+    setColor(`#${toHex(r)}${toHex(g)}${toHex(b)}`);
+    setTool('brush');
+  };
+
+  const pinchState = () => {
+    const [a, b] = [...touchPoints.current.values()];
+    return { distance: Math.hypot(b.x - a.x, b.y - a.y), mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+  };
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    let x, y;
+  const updatePinch = () => {
+    const start = pinch.current;
+    if (!start) return;
+    const { distance, mid } = pinchState();
+    const zoom = clampZoom(start.view.zoom * distance / Math.max(1, start.distance));
+    // Keep the drawing point that was under the fingers' midpoint under it as they move
+    const anchorX = (start.mid.x - start.view.x) / start.view.zoom;
+    const anchorY = (start.mid.y - start.view.y) / start.view.zoom;
+    isFitted.current = false;
+    setView({ zoom, x: mid.x - anchorX * zoom, y: mid.y - anchorY * zoom });
+  };
 
-    if ('touches' in e) {
-      x = e.touches[0].clientX - rect.left;
-      y = e.touches[0].clientY - rect.top;
-    } else {
-      x = e.clientX - rect.left;
-      y = e.clientY - rect.top;
+  // Drops strokes begun by fingers that turned out to be the start of a pinch
+  const abortTouchStrokes = () => {
+    for (const [pointerId, stroke] of activeStrokes.current) {
+      if (!touchPoints.current.has(pointerId)) continue;
+      activeStrokes.current.delete(pointerId);
+      stabilizers.current.delete(pointerId);
+      strokes.current = strokes.current.filter(s => s !== stroke);
+      recordingEvents.current = recordingEvents.current.filter(ev => ev.type !== 'stroke' || ev.stroke !== stroke);
+      metrics.current.strokeCount--;
+      onStrokeOp?.({ op: 'end', id: stroke.id });
     }
+    emitState();
+    redraw();
+  };
 
-    if (lastPos.current) {
-      const dist = Math.sqrt(Math.pow(x - lastPos.current.x, 2) + Math.pow(y - lastPos.current.y, 2));
-      metrics.current.averageSpeed = (metrics.current.averageSpeed + dist) / 2;
+  const startDrawing = (e: React.PointerEvent) => {
+    if (!canvasRef.current) return;
+    if (e.pointerType === 'touch') {
+      touchPoints.current.set(e.pointerId, toScreen(e));
+      if (touchPoints.current.size === 2) {
+        // A second finger turns the touch into a pinch-zoom / two-finger pan
+        abortTouchStrokes();
+        pinch.current = { ...pinchState(), view: { ...view.current } };
+        return;
+      }
     }
-    lastPos.current = { x, y };
-
-    ctx.lineWidth = lineWidth;
-    ctx.lineCap = 'round';
-    ctx.strokeStyle = color;
-
-    if (lineStyle === 'dashed') {
-      ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
-    } else if (lineStyle === 'dotted') {
-      ctx.setLineDash([1, lineWidth * 2]);
-    } else {
-      ctx.setLineDash([]);
+    if (readOnly || pinch.current || touchPoints.current.size > 2) return;
+    if (spaceHeld.current || e.button === 1) {
+      canvasRef.current.setPointerCapture(e.pointerId);
+      panPointer.current = { id: e.pointerId, ...toScreen(e) };
+      return;
     }
+    if (!isActive || !acceptsPointer(e)) return;
+    const point = getPoint(e);
+    if (tool === 'eyedropper') {
+      recordToolUse(tool);
+      pickColor(e);
+      return;
+    }
+    const layer = layersRef.current.find(l => l.id === activeLayerId);
+    if (!layer || layer.locked || !layer.visible) return;
+    recordToolUse(tool);
 
-    ctx.lineTo(x, y);
-    ctx.stroke();
-    ctx.beginPath();
-    ctx.moveTo(x, y);
+    const stroke: Stroke = {
+      id: `${point.t.toString(36)}-${Math.random().toString(36).substring(2, 7)}`,
+      tool,
+      color,
+      width: lineWidth,
+      style: lineStyle,
+      points: SHAPE_TOOLS.includes(tool) ? [point, point] : [point],
+      layerId: layer.id
+    };
+    if (tool === 'brush' || tool === 'eraser') stroke.smoothing = smoothing;
+    if (tool === 'fill') stroke.tolerance = fillTolerance;
+    strokes.current = [...strokes.current, stroke];
+    recordingEvents.current.push({ type: 'stroke', t: point.t, stroke });
+    metrics.current.strokeCount++;
+    const { points, ...header } = stroke;
+    onStrokeOp?.({ op: 'begin', stroke: header, ...packPoints(points) });
+
+    if (tool === 'fill') {
+      // A fill is complete the moment it lands, so it goes straight into history
+      onStrokeOp?.({ op: 'end', id: stroke.id });
+      pushHistory({ type: 'stroke', stroke });
+      SoundManager.play('drawEnd');
+      redraw();
+      return;
+    }
+
+    canvasRef.current.setPointerCapture(e.pointerId);
+    activeStrokes.current.set(e.pointerId, stroke);
+    const stabilizer = createStabilizer(SHAPE_TOOLS.includes(tool) ? 'off' : stabilizerMode, stabilizerStrength);
+    stabilizer.push(point);
+    stabilizers.current.set(e.pointerId, stabilizer);
+    SoundManager.play('drawStart');
+    paintLive(layer.id);
+  };
+
+  const stopDrawing = (e: React.PointerEvent) => {
+    touchPoints.current.delete(e.pointerId);
+    if (touchPoints.current.size < 2) pinch.current = null;
+    if (panPointer.current?.id === e.pointerId) {
+      panPointer.current = null;
+      if (canvasRef.current?.hasPointerCapture(e.pointerId)) canvasRef.current.releasePointerCapture(e.pointerId);
+      return;
+    }
+    const stroke = activeStrokes.current.get(e.pointerId);
+    if (!stroke) return;
+    activeStrokes.current.delete(e.pointerId);
+    stabilizers.current.delete(e.pointerId);
+    if (![...activeStrokes.current.values()].some(s => layerOf(s) === layerOf(stroke))) {
+      liveBases.current.delete(layerOf(stroke));
+    }
+    if (canvasRef.current?.hasPointerCapture(e.pointerId)) {
+      canvasRef.current.releasePointerCapture(e.pointerId);
+    }
+    SoundManager.play('drawEnd');
+    onStrokeOp?.({ op: 'end', id: stroke.id });
+    pushHistory({ type: 'stroke', stroke });
+  };
+
+  const draw = (e: React.PointerEvent) => {
+    if (shared) {
+      const { x, y } = getPoint(e);
+      onStrokeOp?.({ op: 'cursor', at: [Math.round(x), Math.round(y)] });
+    }
+    if (touchPoints.current.has(e.pointerId)) {
+      touchPoints.current.set(e.pointerId, toScreen(e));
+      if (pinch.current) {
+        updatePinch();
+        return;
+      }
+    }
+    const pan = panPointer.current;
+    if (pan?.id === e.pointerId) {
+      const { x, y } = toScreen(e);
+      isFitted.current = false;
+      setView({ ...view.current, x: view.current.x + x - pan.x, y: view.current.y + y - pan.y });
+      panPointer.current = { id: e.pointerId, x, y };
+      return;
+    }
+    const stroke = activeStrokes.current.get(e.pointerId);
+    if (!isActive || !stroke || !canvasRef.current) return;
+
+    // Coalesced events recover the samples the browser merged between frames
+    const samples = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const events = samples.length > 0 ? samples : [e.nativeEvent];
+    const stabilizer = stabilizers.current.get(e.pointerId);
+    const sent = stroke.points.length;
+    let changed = false;
+    for (const sample of events) {
+      const point = stabilizer ? stabilizer.push(getPoint(sample)) : getPoint(sample);
+      if (!point) continue;
+      if (SHAPE_TOOLS.includes(stroke.tool!)) {
+        // Shapes keep only their anchor and the live corner, which doubles as the preview
+        stroke.points[1] = point;
+      } else {
+        stroke.points.push(point);
+      }
+      changed = true;
+    }
+    if (!changed) return;
+    const isShape = SHAPE_TOOLS.includes(stroke.tool!);
+    onStrokeOp?.({ op: 'points', id: stroke.id, ...packPoints(isShape ? [stroke.points[1]] : stroke.points.slice(sent)) });
+    paintLive(layerOf(stroke));
   };
 
   return (
     <div className="relative w-full h-full bg-slate-800 rounded-2xl overflow-hidden shadow-2xl border-4 border-slate-700">
       <canvas
         ref={canvasRef}
-        onMouseDown={startDrawing}
-        onMouseUp={stopDrawing}
-        onMouseMove={draw}
-        onTouchStart={startDrawing}
-        onTouchEnd={stopDrawing}
-        onTouchMove={draw}
+        onPointerDown={startDrawing}
+        onPointerMove={draw}
+        onPointerUp={stopDrawing}
+        onPointerCancel={stopDrawing}
+        onLostPointerCapture={stopDrawing}
+        onPointerLeave={shared ? () => onStrokeOp?.({ op: 'cursor', at: null }) : undefined}
         className="w-full h-full block"
+        style={isPanReady ? { cursor: 'grab' } : undefined}
       />
       
-      <div className="absolute bottom-4 left-4 right-4 flex flex-col gap-3 bg-black/70 backdrop-blur-xl p-3 rounded-2xl border border-white/10 shadow-2xl">
+      {collaborators && Object.entries(cursors).map(([author, at]) => at && collaborators[author] && (
+        <div
+          key={author}
+          className="absolute pointer-events-none flex flex-col items-start"
+          style={{ left: at[0] * view.current.zoom + view.current.x - 6, top: at[1] * view.current.zoom + view.current.y - 6 }}
+        >
+          <div className="w-3 h-3 rounded-full border-2 border-white shadow-lg" style={{ backgroundColor: collaborators[author].color }} />
+          <div className="ml-3 px-1.5 py-0.5 rounded text-[9px] font-black uppercase text-black shadow-lg" style={{ backgroundColor: collaborators[author].color }}>{collaborators[author].name}</div>
+        </div>
+      ))}
+
+      {showLayers && !readOnly && !shared && (
+        <div className="absolute top-4 right-4 w-56 flex flex-col gap-1.5 bg-black/70 backdrop-blur-xl p-2 rounded-2xl border border-white/10 shadow-2xl">
+          {[...layers].reverse().map(layer => (
+            <div
+              key={layer.id}
+              onClick={() => setActiveLayerId(layer.id)}
+              className={`flex flex-col gap-1 p-1.5 rounded-lg cursor-pointer border transition-all ${activeLayerId === layer.id ? 'bg-indigo-500/20 border-indigo-400/50' : 'border-transparent hover:bg-white/5'}`}
+            >
+              <div className="flex items-center gap-1">
+                <button onClick={(e) => { e.stopPropagation(); patchLayer(layer.id, { visible: !layer.visible }); }} title={layer.visible ? 'Hide layer' : 'Show layer'} className={`w-6 text-[10px] font-black ${layer.visible ? 'text-white' : 'text-white/20'}`}>👁</button>
+                <button onClick={(e) => { e.stopPropagation(); patchLayer(layer.id, { locked: !layer.locked }); }} title={layer.locked ? 'Unlock layer' : 'Lock layer'} className={`w-6 text-[10px] font-black ${layer.locked ? 'text-amber-400' : 'text-white/20'}`}>{layer.locked ? '🔒' : '🔓'}</button>
+                <span className="flex-1 truncate text-[10px] font-bold text-white">{layer.name}</span>
+                <button onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, 1); }} title="Move up" className="w-5 text-[10px] text-white/40 hover:text-white">▲</button>
+                <button onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, -1); }} title="Move down" className="w-5 text-[10px] text-white/40 hover:text-white">▼</button>
+                <button onClick={(e) => { e.stopPropagation(); deleteLayer(layer.id); }} disabled={layers.length <= 1} title="Delete layer" className="w-5 text-[10px] text-red-400/60 hover:text-red-400 disabled:opacity-20">✕</button>
+              </div>
+              {activeLayerId === layer.id && (
+                <div className="flex items-center gap-2 px-1" onClick={(e) => e.stopPropagation()}>
+                  <span className="text-[9px] text-white/50 uppercase font-black tracking-widest">Opacity</span>
+                  <input
+                    type="range" min="0" max="100" value={Math.round(layer.opacity * 100)}
+                    onChange={(e) => patchLayer(layer.id, { opacity: Number(e.target.value) / 100 })}
+                    className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+          <button onClick={addLayer} className="py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold text-white border border-white/5 transition-colors">+ Add Layer</button>
+        </div>
+      )}
+
+      {!readOnly && <div className="absolute bottom-4 left-4 right-4 flex flex-col gap-3 bg-black/70 backdrop-blur-xl p-3 rounded-2xl border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex bg-white/5 rounded-xl p-1 border border-white/10 w-fit">
+            {TOOLS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTool(t.id)}
+                className={`px-3 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all ${tool === t.id ? 'bg-indigo-500 text-white shadow-lg' : 'text-white/40 hover:text-white/60'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="text-[10px] text-white/50 uppercase font-black tracking-widest">Stabilizer</span>
+            <div className="flex bg-white/5 rounded-xl p-1 border border-white/10">
+              {STABILIZERS.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setStabilizerMode(m.id)}
+                  className={`px-2.5 py-1 text-[10px] font-black uppercase rounded-lg transition-all ${stabilizerMode === m.id ? 'bg-indigo-500 text-white shadow-lg' : 'text-white/40 hover:text-white/60'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            {stabilizerMode !== 'off' && (
+              <input
+                type="range" min="0" max="100" value={stabilizerStrength}
+                onChange={(e) => setStabilizerStrength(Number(e.target.value))}
+                title={`Strength ${stabilizerStrength}`}
+                className="w-20 h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+            )}
+            <span className="text-[10px] text-white/50 uppercase font-black tracking-widest">Smooth</span>
+            <div className="flex bg-white/5 rounded-xl p-1 border border-white/10">
+              {SMOOTHINGS.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setSmoothing(m.id)}
+                  className={`px-2.5 py-1 text-[10px] font-black uppercase rounded-lg transition-all ${smoothing === m.id ? 'bg-indigo-500 text-white shadow-lg' : 'text-white/40 hover:text-white/60'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="text-[10px] text-white font-mono w-10 text-right">{Math.round(zoomLevel * 100)}%</span>
+            <button
+              onClick={fitToView}
+              title="Fit the whole drawing in view (scroll or pinch to zoom, hold space or use two fingers to pan)"
+              className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all border bg-white/5 text-white/40 border-white/10 hover:text-white/60"
+            >
+              Fit
+            </button>
+          </div>
+          {!shared && <button
+            onClick={() => setShowLayers(v => !v)}
+            className={`px-3 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all border shrink-0 ${showLayers ? 'bg-indigo-500 text-white border-indigo-400' : 'bg-white/5 text-white/40 border-white/10 hover:text-white/60'}`}
+          >
+            Layers ({layers.length})
+          </button>}
+        </div>
         <div className="flex items-center justify-between gap-4">
           <div className="flex items-center gap-2 flex-1 min-w-0">
             <div className="flex gap-1.5 overflow-x-auto scrollbar-hide py-1 pr-4">
@@ -267,6 +876,14 @@ const DrawingCanvas = forwardRef<CanvasHandle, Props>(({ onSnapshot, isActive },
             ))}
           </div>
 
+          <button
+            onClick={() => setPenOnly(v => !v)}
+            title="Ignore touch input and draw with a stylus only"
+            className={`px-3 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all border shrink-0 ${penOnly ? 'bg-indigo-500 text-white border-indigo-400' : 'bg-white/5 text-white/40 border-white/10 hover:text-white/60'}`}
+          >
+            Pen Only
+          </button>
+
           <div className="flex gap-2">
             <button
                onClick={() => ref && 'current' in ref && ref.current?.undo()}
@@ -286,15 +903,27 @@ const DrawingCanvas = forwardRef<CanvasHandle, Props>(({ onSnapshot, isActive },
         </div>
         
         <div className="flex items-center justify-between gap-6">
-          <div className="flex items-center gap-3 flex-1">
-            <span className="text-[10px] text-white/50 uppercase font-black tracking-widest shrink-0">Stroke Size</span>
-            <input
-              type="range" min="1" max="40" value={lineWidth}
-              onChange={(e) => setLineWidth(Number(e.target.value))}
-              className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400 transition-all"
-            />
-            <span className="text-[10px] text-white font-mono w-6 text-right shrink-0">{lineWidth}</span>
-          </div>
+          {tool === 'fill' ? (
+            <div className="flex items-center gap-3 flex-1">
+              <span className="text-[10px] text-white/50 uppercase font-black tracking-widest shrink-0">Fill Tolerance</span>
+              <input
+                type="range" min="0" max="100" value={fillTolerance}
+                onChange={(e) => setFillTolerance(Number(e.target.value))}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400 transition-all"
+              />
+              <span className="text-[10px] text-white font-mono w-6 text-right shrink-0">{fillTolerance}</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3 flex-1">
+              <span className="text-[10px] text-white/50 uppercase font-black tracking-widest shrink-0">Stroke Size</span>
+              <input
+                type="range" min="1" max="40" value={lineWidth}
+                onChange={(e) => setLineWidth(Number(e.target.value))}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400 transition-all"
+              />
+              <span className="text-[10px] text-white font-mono w-6 text-right shrink-0">{lineWidth}</span>
+            </div>
+          )}
           <button
              onClick={() => ref && 'current' in ref && ref.current?.clear()}
              className="px-4 py-1.5 bg-red-500/10 hover:bg-red-500/30 text-red-400 rounded-lg text-[10px] font-black transition-all border border-red-500/30 uppercase tracking-widest active:scale-95"
@@ -302,7 +931,7 @@ const DrawingCanvas = forwardRef<CanvasHandle, Props>(({ onSnapshot, isActive },
             Clear Canvas
           </button>
         </div>
-      </div>
+      </div>}
     </div>
   );
 });
@@ -0,0 +1,39 @@
+import React from 'react';
+import { RoundEvent, RoundEventKind } from '../types';
+
+interface Props {
+  events: RoundEvent[];
+  nameOf: (playerId: string) => string;
+  colorOf: (playerId: string) => string;
+}
+
+const KIND_LABELS: Record<RoundEventKind, { label: string; className: string }> = {
+  award: { label: 'Award', className: 'text-emerald-400' },
+  deduct: { label: 'Penalty', className: 'text-red-400' },
+  tip: { label: 'Tip', className: 'text-amber-300' },
+  guess: { label: 'Guess', className: 'text-sky-300' },
+  verdict: { label: 'Winner', className: 'text-amber-400' }
+};
+
+const formatAt = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const EventLog: React.FC<Props> = ({ events, nameOf, colorOf }) => (
+  <div className="flex flex-col gap-1.5 text-left">
+    {events.length === 0 && <div className="text-xs font-bold text-slate-500">The judge took no actions this round.</div>}
+    {events.map((event, i) => (
+      <div key={i} className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-white/5 border border-white/5 text-sm">
+        <span className="w-10 font-mono text-xs text-slate-500">{formatAt(event.at)}</span>
+        <span className={`w-14 text-[10px] font-black uppercase tracking-widest ${KIND_LABELS[event.kind].className}`}>{KIND_LABELS[event.kind].label}</span>
+        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(event.playerId) }} />
+        <span className="font-bold w-28 truncate">{nameOf(event.playerId)}</span>
+        {event.points !== undefined && <span className={`font-black ${event.points < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{event.points < 0 ? event.points : `+${event.points}`}</span>}
+        <span className="flex-1 text-slate-300">{event.kind === 'award' || event.kind === 'deduct' ? `"${event.text}"` : event.text}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export default EventLog;
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameMode, RoundRecord } from '../types';
+import { PLAYER_COLORS } from '../constants';
+import EventLog from './EventLog';
+import { bestDrawing, deleteRound, exportRound, listRounds } from '../services/historyStore';
+import { documentToPng, documentToSvg, parseDocument } from '../services/drawingExport';
+import { downloadBlob, downloadText } from '../services/fileUtils';
+
+interface Props {
+  onBack: () => void;
+}
+
+type SortOrder = 'newest' | 'top';
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-transparent border-white/20 text-slate-500 hover:text-slate-300'}`;
+
+const smallButton = 'px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 transition-colors';
+
+const svgUrl = (json: string | null) => {
+  if (!json) return null;
+  try {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(documentToSvg(parseDocument(json)))}`;
+  } catch (e) {
+    return null;
+  }
+};
+
+const formatDate = (date: number) => new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const topScore = (record: RoundRecord) => Math.max(0, ...Object.values(record.scores));
+
+const fileName = (record: RoundRecord, suffix: string) =>
+  `${record.prompt.label}-${new Date(record.date).toISOString().slice(0, 10)}-${suffix}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+const RoundDetail: React.FC<{ record: RoundRecord; onBack: () => void; onDelete: () => void }> = ({ record, onBack, onDelete }) => {
+  const images = useMemo(() => Object.fromEntries(Object.entries(record.drawings).map(([id, json]: [string, string]) => [id, svgUrl(json)])), [record]);
+  const nameOf = (id: string) => record.players.find(p => p.id === id)?.name ?? 'Player';
+  const colorOf = (id: string) => PLAYER_COLORS[Math.max(0, record.players.findIndex(p => p.id === id)) % PLAYER_COLORS.length];
+
+  const downloadDrawing = async (id: string, format: 'svg' | 'png') => {
+    const doc = parseDocument(record.drawings[id]);
+    const name = fileName(record, nameOf(id));
+    if (format === 'svg') downloadText(documentToSvg(doc), `${name}.svg`, 'image/svg+xml');
+    else downloadBlob(await documentToPng(doc), `${name}.png`);
+  };
+
+  const downloadAiImage = async () => {
+    if (record.aiImage) downloadBlob(await (await fetch(record.aiImage)).blob(), `${fileName(record, 'ai')}.png`);
+  };
+
+  return (
+    <div className="flex flex-col gap-6 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={onBack} className={smallButton}>← Gallery</button>
+        <div className="flex-1 min-w-[200px]">
+          <div className="text-2xl font-black">{record.prompt.label}</div>
+          <div className="text-[10px] text-slate-500 font-black uppercase tracking-widest">
+            {record.mode} · {record.prompt.difficulty}{record.rounds > 1 && ` · Round ${record.round} of ${record.rounds}`} · {formatDate(record.date)}
+          </div>
+        </div>
+        <button onClick={() => downloadText(exportRound(record), `${fileName(record, 'round')}.json`)} className={smallButton}>Export JSON</button>
+        <button onClick={() => { if (window.confirm('Delete this round from the history?')) onDelete(); }} className={`${smallButton} text-red-300`}>Delete</button>
+      </div>
+
+      <div className={`grid gap-4 ${Object.keys(record.drawings).length > 1 ? 'sm:grid-cols-2' : ''}`}>
+        {Object.keys(record.drawings).map(id => (
+          <div key={id} className="flex flex-col gap-2">
+            <div className="relative rounded-3xl overflow-hidden border border-white/10 bg-white">
+              {images[id] ? <img src={images[id]!} className="w-full" /> : <div className="aspect-video flex items-center justify-center text-xs font-bold text-slate-500">Unreadable drawing</div>}
+              <div className="absolute top-3 left-3 text-black px-2 py-0.5 rounded text-[10px] font-black uppercase shadow-lg" style={{ backgroundColor: colorOf(id) }}>{nameOf(id)}</div>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="mr-auto text-sm font-black">+{record.scores[id] ?? 0}{record.rounds > 1 && <span className="ml-2 text-slate-500">{record.totals[id] ?? 0} total</span>}</span>
+              <button onClick={() => downloadDrawing(id, 'svg')} className={smallButton}>SVG</button>
+              <button onClick={() => downloadDrawing(id, 'png')} className={smallButton}>PNG</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {record.aiImage && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <div className="text-[10px] text-indigo-400 font-black uppercase tracking-widest">AI Transform</div>
+            <button onClick={downloadAiImage} className={smallButton}>PNG</button>
+          </div>
+          <img src={record.aiImage} className="w-full max-w-xl rounded-[2rem] border-4 border-white/10" />
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <div className="text-[10px] text-indigo-400 font-black uppercase tracking-widest">Judge Events</div>
+        <EventLog events={record.events} nameOf={nameOf} colorOf={colorOf} />
+      </div>
+    </div>
+  );
+};
+
+const Gallery: React.FC<Props> = ({ onBack }) => {
+  const [records, setRecords] = useState<RoundRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<GameMode | null>(null);
+  const [sort, setSort] = useState<SortOrder>('newest');
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRounds().then(setRecords).catch(err => { setRecords([]); setError(err instanceof Error ? err.message : 'Could not read the match history'); });
+  }, []);
+
+  const covers = useMemo(() => Object.fromEntries((records ?? []).map(r => [r.id, svgUrl(bestDrawing(r))])), [records]);
+
+  const q = query.trim().toLowerCase();
+  const visible = (records ?? [])
+    .filter(r => (!mode || r.mode === mode) && (!q || r.prompt.label.toLowerCase().includes(q)))
+    .sort((a, b) => sort === 'top' ? topScore(b) - topScore(a) || b.date - a.date : b.date - a.date);
+  const open = records?.find(r => r.id === openId);
+
+  const remove = async (id: string) => {
+    try {
+      await deleteRound(id);
+      setRecords(prev => prev?.filter(r => r.id !== id) ?? null);
+      setOpenId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the round');
+    }
+  };
+
+  if (open) return <RoundDetail record={open} onBack={() => setOpenId(null)} onDelete={() => remove(open.id)} />;
+
+  return (
+    <div className="flex flex-col gap-6 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={onBack} className={smallButton}>← Lobby</button>
+        <h2 className="font-bungee text-3xl mr-auto">GALLERY</h2>
+        <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search prompts..." className="min-w-[180px] px-4 py-2 bg-black/40 rounded-xl text-sm font-bold border border-white/10 outline-none" />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => setMode(null)} className={chip(mode === null)}>All Modes</button>
+        {Object.values(GameMode).map(m => <button key={m} onClick={() => setMode(m)} className={chip(mode === m)}>{m}</button>)}
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => setSort('newest')} className={chip(sort === 'newest')}>Newest</button>
+          <button onClick={() => setSort('top')} className={chip(sort === 'top')}>Top Score</button>
+        </div>
+      </div>
+      {error && <div className="text-xs font-bold text-red-300">{error}</div>}
+      {records === null ? (
+        <div className="py-12 text-center text-xs font-bold text-slate-500">Loading...</div>
+      ) : visible.length === 0 ? (
+        <div className="py-12 text-center text-xs font-bold text-slate-500">{records.length ? 'No rounds match.' : 'Finished rounds show up here.'}</div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {visible.map(r => (
+            <button key={r.id} onClick={() => setOpenId(r.id)} className="text-left rounded-3xl overflow-hidden border border-white/5 bg-white/5 hover:border-indigo-500/50 transition-all">
+              <div className="aspect-video bg-white">{covers[r.id] && <img src={covers[r.id]!} className="w-full h-full object-contain" />}</div>
+              <div className="p-3">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 font-bold text-sm truncate">{r.prompt.label}</span>
+                  <span className="font-bungee text-emerald-400">{topScore(r)}</span>
+                </div>
+                <div className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{r.mode} · {formatDate(r.date)}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Gallery;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Difficulty, GameMode, Profile } from '../types';
+import { DIFFICULTIES } from '../services/promptLibrary';
+import { bestByDifficulty, summarize } from '../services/profiles';
+
+interface Props {
+  profiles: Profile[];
+  onBack: () => void;
+}
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-transparent border-white/20 text-slate-500 hover:text-slate-300'}`;
+
+const Stat: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="w-16 text-right">
+    <div className="font-bungee">{value}</div>
+    <div className="text-[9px] text-slate-500 font-black uppercase tracking-widest">{label}</div>
+  </div>
+);
+
+const Leaderboard: React.FC<Props> = ({ profiles, onBack }) => {
+  const [mode, setMode] = useState<GameMode | null>(null);
+  const [difficulty, setDifficulty] = useState<Difficulty | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const ranked = profiles
+    .map(profile => ({ profile, summary: summarize(profile, { mode, difficulty }) }))
+    .filter(({ summary }) => summary.rounds > 0)
+    .sort((a, b) => b.summary.wins - a.summary.wins || b.summary.averageScore - a.summary.averageScore);
+
+  return (
+    <div className="flex flex-col gap-6 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={onBack} className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 transition-colors">← Lobby</button>
+        <h2 className="font-bungee text-3xl mr-auto">LEADERBOARD</h2>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => setMode(null)} className={chip(mode === null)}>All Modes</button>
+        {Object.values(GameMode).map(m => <button key={m} onClick={() => setMode(m)} className={chip(mode === m)}>{m}</button>)}
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => setDifficulty(null)} className={chip(difficulty === null)}>Any</button>
+          {DIFFICULTIES.map(d => <button key={d} onClick={() => setDifficulty(d)} className={chip(difficulty === d)}>{d}</button>)}
+        </div>
+      </div>
+      {ranked.length === 0 ? (
+        <div className="py-12 text-center text-xs font-bold text-slate-500">{profiles.length ? 'No rounds played with these filters.' : 'Create a profile in the lobby to start tracking stats.'}</div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {ranked.map(({ profile, summary }, rank) => (
+            <div key={profile.id} className="rounded-2xl bg-white/5 border border-white/5">
+              <button onClick={() => setOpenId(openId === profile.id ? null : profile.id)} className="w-full flex items-center gap-4 px-5 py-3 text-left">
+                <span className="w-6 font-bungee text-slate-500">{rank + 1}</span>
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: profile.color }} />
+                <span className="flex-1 font-bold truncate">{profile.name}</span>
+                <Stat label="Rounds" value={summary.rounds} />
+                <Stat label="Wins" value={summary.wins} />
+                <Stat label="Avg" value={summary.averageScore.toFixed(1)} />
+                <Stat label="Best" value={summary.bestScore} />
+                <Stat label="Conf" value={summary.measured ? `${Math.round(summary.confidence * 100)}%` : '–'} />
+                <Stat label="Effic" value={summary.measured ? `${Math.round(summary.efficiency * 100)}%` : '–'} />
+              </button>
+              {openId === profile.id && (
+                <div className="px-5 pb-4 flex flex-col gap-3">
+                  <div className="flex gap-2">
+                    {DIFFICULTIES.map(d => (
+                      <span key={d} className="px-3 py-1 rounded-full bg-black/30 text-[10px] font-black uppercase tracking-widest text-slate-400">{d} best · <span className="text-white">{bestByDifficulty(profile, mode)[d] ?? '–'}</span></span>
+                    ))}
+                  </div>
+                  <div className="grid sm:grid-cols-2 gap-1">
+                    {Object.keys(profile.best)
+                      .map(key => ({ key, ...profile.best[key] }))
+                      .filter(b => (!mode || b.mode === mode) && (!difficulty || b.difficulty === difficulty))
+                      .sort((a, b) => b.score - a.score)
+                      .map(b => (
+                        <div key={b.key} className="flex items-center gap-2 text-xs">
+                          <span className="flex-1 truncate text-slate-300">{b.label}</span>
+                          {!mode && <span className="text-[10px] text-slate-500 font-black uppercase">{b.mode}</span>}
+                          <span className="text-[10px] text-slate-500 font-black uppercase">{b.difficulty}</span>
+                          <span className="w-8 text-right font-black">{b.score}</span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { MatchSettings } from '../types';
+import { DIFFICULTIES } from '../services/promptLibrary';
+import { DIFFICULTY_MULTIPLIERS, MAX_ROUNDS, PROMPT_RULES, ROUND_SECONDS_OPTIONS } from '../services/match';
+
+interface Props {
+  settings: MatchSettings;
+  onChange: (settings: MatchSettings) => void;
+  readOnly?: boolean; // ONLINE guests see the host's settings
+}
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all disabled:cursor-default ${active ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-transparent border-white/20 text-slate-500 enabled:hover:text-slate-300'}`;
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="w-24 text-[10px] text-slate-500 font-black uppercase tracking-widest">{label}</span>
+    {children}
+  </div>
+);
+
+const MatchSetup: React.FC<Props> = ({ settings, onChange, readOnly = false }) => {
+  const set = (patch: Partial<MatchSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-white/5 rounded-3xl border border-white/5 text-left">
+      <div className="text-[10px] text-indigo-400 font-black uppercase tracking-widest">Match Setup{readOnly && <span className="ml-2 text-slate-500">· set by the host</span>}</div>
+      <Row label="Round Time">
+        {ROUND_SECONDS_OPTIONS.map(s => <button key={s} disabled={readOnly} onClick={() => set({ roundSeconds: s })} className={chip(settings.roundSeconds === s)}>{s}s</button>)}
+      </Row>
+      <Row label="Rounds">
+        <button disabled={readOnly || settings.rounds <= 1} onClick={() => set({ rounds: settings.rounds - 1 })} className="w-7 h-7 rounded-lg bg-white/10 font-black disabled:opacity-30">−</button>
+        <span className="w-8 text-center font-bungee">{settings.rounds}</span>
+        <button disabled={readOnly || settings.rounds >= MAX_ROUNDS} onClick={() => set({ rounds: settings.rounds + 1 })} className="w-7 h-7 rounded-lg bg-white/10 font-black disabled:opacity-30">+</button>
+      </Row>
+      <Row label="Prompts">
+        {PROMPT_RULES.map(r => <button key={r.rule} title={r.description} disabled={readOnly} onClick={() => set({ promptRule: r.rule })} className={chip(settings.promptRule === r.rule)}>{r.label}</button>)}
+        {settings.promptRule === 'difficulty' && (
+          <div className="flex gap-1.5 ml-2">
+            {DIFFICULTIES.map(d => <button key={d} disabled={readOnly} onClick={() => set({ difficulty: d })} className={chip(settings.difficulty === d)}>{d}</button>)}
+          </div>
+        )}
+      </Row>
+      <Row label="Points">
+        <button disabled={readOnly} onClick={() => set({ difficultyBonus: !settings.difficultyBonus })} className={chip(settings.difficultyBonus)}>Difficulty Bonus</button>
+        <span className="text-xs text-slate-500 font-bold">{settings.difficultyBonus ? DIFFICULTIES.map(d => `${d} ×${DIFFICULTY_MULTIPLIERS[d]}`).join(' · ') : 'Every award counts once'}</span>
+      </Row>
+    </div>
+  );
+};
+
+export default MatchSetup;
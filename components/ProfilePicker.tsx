@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { PLAYER_COLORS } from '../constants';
+import { MAX_NAME_LENGTH } from '../services/protocol';
+import { createProfile, deleteProfile, nextColor, updateProfile } from '../services/profiles';
+
+interface Props {
+  label: string;
+  profiles: Profile[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onProfilesChange: (profiles: Profile[]) => void;
+  exclude?: string | null; // the profile sitting in the other seat
+}
+
+interface Draft {
+  id: string | null; // null while creating
+  name: string;
+  color: string;
+}
+
+const ProfilePicker: React.FC<Props> = ({ label, profiles, selectedId, onSelect, onProfilesChange, exclude }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const selected = profiles.find(p => p.id === selectedId) ?? null;
+
+  const save = () => {
+    if (!draft || !draft.name.trim()) return;
+    if (draft.id) {
+      onProfilesChange(updateProfile(profiles, draft.id, { name: draft.name, color: draft.color }));
+    } else {
+      const next = createProfile(profiles, draft.name, draft.color);
+      onProfilesChange(next);
+      onSelect(next[next.length - 1].id);
+    }
+    setDraft(null);
+  };
+
+  const remove = (profile: Profile) => {
+    if (!window.confirm(`Delete ${profile.name} and all of their stats?`)) return;
+    onProfilesChange(deleteProfile(profiles, profile.id));
+    if (selectedId === profile.id) onSelect(null);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-white/5 rounded-2xl border border-white/5">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] text-slate-500 font-black uppercase tracking-widest mr-1">{label}</span>
+        <select value={selectedId ?? ''} onChange={e => onSelect(e.target.value || null)} className="px-3 py-1.5 bg-black/40 rounded-lg text-sm font-bold border border-white/10 outline-none" style={selected ? { color: selected.color } : undefined}>
+          <option value="">Guest</option>
+          {profiles.filter(p => p.id !== exclude).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {selected && <button onClick={() => setDraft({ id: selected.id, name: selected.name, color: selected.color })} className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-[10px] font-bold">✎</button>}
+        <button onClick={() => setDraft({ id: null, name: '', color: nextColor(profiles) })} className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-[10px] font-black uppercase tracking-widest">+ Profile</button>
+      </div>
+      {draft && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input value={draft.name} maxLength={MAX_NAME_LENGTH} onChange={e => setDraft({ ...draft, name: e.target.value })} onKeyDown={e => e.key === 'Enter' && save()} placeholder="Name" className="px-3 py-1.5 bg-black/40 rounded-lg text-sm font-bold border border-white/10 outline-none w-40" autoFocus />
+          <div className="flex gap-1">
+            {PLAYER_COLORS.map(c => (
+              <button key={c} onClick={() => setDraft({ ...draft, color: c })} className={`w-5 h-5 rounded-full border-2 ${draft.color === c ? 'border-white' : 'border-transparent'}`} style={{ backgroundColor: c }} />
+            ))}
+          </div>
+          <button onClick={save} disabled={!draft.name.trim()} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Save</button>
+          <button onClick={() => setDraft(null)} className="px-3 py-1.5 bg-white/10 rounded-lg text-[10px] font-bold">Cancel</button>
+          {draft.id && <button onClick={() => remove(profiles.find(p => p.id === draft.id)!)} className="px-3 py-1.5 bg-white/10 rounded-lg text-[10px] font-bold text-red-300">Delete</button>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
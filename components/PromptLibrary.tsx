@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { Difficulty, DrawingPrompt, PromptPack } from '../types';
+import {
+  DIFFICULTIES, categoriesOf, createPack, deletePack, deletePrompt, drawPrompt, exportPack, filterPrompts,
+  loadLibrary, newId, parsePack, renamePack, saveLibrary, savePrompt
+} from '../services/promptLibrary';
+import { downloadText, readFileAsText } from '../services/fileUtils';
+
+interface Props {
+  selected: DrawingPrompt;
+  onSelect: (prompt: DrawingPrompt) => void;
+}
+
+const ALL_PACKS = 'all';
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-transparent border-white/20 text-slate-500 hover:text-slate-300'}`;
+
+const smallButton = 'px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 transition-colors disabled:opacity-30';
+
+const PromptLibrary: React.FC<Props> = ({ selected, onSelect }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [packs, setPacks] = useState<PromptPack[]>(loadLibrary);
+  const [packId, setPackId] = useState(ALL_PACKS);
+  const [query, setQuery] = useState('');
+  const [difficulty, setDifficulty] = useState<Difficulty | null>(null);
+  const [category, setCategory] = useState<string | null>(null);
+  const [noRepeat, setNoRepeat] = useState(true);
+  const [editing, setEditing] = useState<DrawingPrompt | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: PromptPack[]) => {
+    setPacks(next);
+    saveLibrary(next);
+  };
+
+  const activePack = packs.find(p => p.id === packId) ?? null;
+  const inScope = activePack ? activePack.prompts : packs.flatMap(p => p.prompts);
+  const visible = filterPrompts(inScope, { query, difficulty, category });
+  const editable = !!activePack && !activePack.builtIn;
+
+  const drawRandom = () => {
+    // The search box only narrows browsing; random draws honour the pack and filters
+    const prompt = drawPrompt(filterPrompts(inScope, { difficulty, category }), { noRepeat });
+    if (prompt) onSelect(prompt);
+    else setError('No prompts match these filters.');
+  };
+
+  const addPack = () => {
+    const next = createPack(packs, `Pack ${packs.length}`);
+    update(next);
+    setPackId(next[next.length - 1].id);
+    setRenaming(next[next.length - 1].name);
+  };
+
+  const removePack = (pack: PromptPack) => {
+    if (!window.confirm(`Delete the pack "${pack.name}" and its ${pack.prompts.length} prompts?`)) return;
+    update(deletePack(packs, pack.id));
+    setPackId(ALL_PACKS);
+  };
+
+  const commitEdit = () => {
+    if (!editing || !activePack) return;
+    const label = editing.label.trim();
+    if (!label) { setError('A prompt needs some text.'); return; }
+    const category = editing.category?.trim();
+    const prompt: DrawingPrompt = { id: editing.id, label, difficulty: editing.difficulty, ...(category ? { category } : {}) };
+    update(savePrompt(packs, activePack.id, prompt));
+    if (selected.id === prompt.id) onSelect(prompt);
+    setEditing(null);
+    setError(null);
+  };
+
+  const importPack = async (file: File) => {
+    try {
+      const pack = parsePack(await readFileAsText(file));
+      update([...packs, pack]);
+      setPackId(pack.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? `Import failed: ${err.message}` : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search prompts..." className="flex-1 min-w-[180px] px-4 py-2 bg-black/40 rounded-xl text-sm font-bold border border-white/10 outline-none" />
+        <div className="flex gap-1.5">
+          <button onClick={() => setDifficulty(null)} className={chip(difficulty === null)}>Any</button>
+          {DIFFICULTIES.map(d => <button key={d} onClick={() => setDifficulty(d)} className={chip(difficulty === d)}>{d}</button>)}
+        </div>
+        <select value={category ?? ''} onChange={e => setCategory(e.target.value || null)} className="px-3 py-1.5 bg-black/40 rounded-lg text-[10px] font-black uppercase tracking-widest border border-white/10 outline-none">
+          <option value="">All Categories</option>
+          {categoriesOf(inScope).map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <button onClick={() => setNoRepeat(v => !v)} title="Skip prompts played in earlier rounds" className={chip(noRepeat)}>No Repeats</button>
+        <button onClick={drawRandom} className="px-4 py-1.5 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors">🎲 Random</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => setPackId(ALL_PACKS)} className={chip(packId === ALL_PACKS)}>All Packs</button>
+        {packs.map(p => <button key={p.id} onClick={() => { setPackId(p.id); setEditing(null); setRenaming(null); }} className={chip(packId === p.id)}>{p.name} · {p.prompts.length}</button>)}
+        <button onClick={addPack} className={chip(false)}>+ Pack</button>
+        <div className="ml-auto flex gap-2">
+          {editable && (renaming !== null ? (
+            <>
+              <input value={renaming} onChange={e => setRenaming(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { update(renamePack(packs, activePack.id, renaming)); setRenaming(null); } }} className="px-2 py-1 bg-black/40 rounded-lg text-xs font-bold border border-white/10 outline-none w-36" autoFocus />
+              <button onClick={() => { update(renamePack(packs, activePack.id, renaming)); setRenaming(null); }} className={smallButton}>Save</button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setRenaming(activePack.name)} className={smallButton}>Rename</button>
+              <button onClick={() => removePack(activePack)} className={`${smallButton} text-red-300`}>Delete Pack</button>
+            </>
+          ))}
+          {activePack && <button onClick={() => downloadText(exportPack(activePack), `${activePack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`)} className={smallButton}>Export</button>}
+          <button onClick={() => fileInputRef.current?.click()} className={smallButton}>Import</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) importPack(file); e.target.value = ''; }} />
+        </div>
+      </div>
+
+      {error && <div className="text-xs font-bold text-red-300">{error}</div>}
+
+      {editing && (
+        <div className="flex flex-wrap items-center gap-3 p-3 bg-indigo-500/10 rounded-2xl border border-indigo-500/20">
+          <input value={editing.label} onChange={e => setEditing({ ...editing, label: e.target.value })} onKeyDown={e => e.key === 'Enter' && commitEdit()} placeholder="What to draw" className="flex-1 min-w-[200px] px-3 py-2 bg-black/40 rounded-lg text-sm font-bold border border-white/10 outline-none" autoFocus />
+          <div className="flex gap-1.5">
+            {DIFFICULTIES.map(d => <button key={d} onClick={() => setEditing({ ...editing, difficulty: d })} className={chip(editing.difficulty === d)}>{d}</button>)}
+          </div>
+          <input value={editing.category ?? ''} onChange={e => setEditing({ ...editing, category: e.target.value })} list="prompt-categories" placeholder="Category" className="w-36 px-3 py-2 bg-black/40 rounded-lg text-sm font-bold border border-white/10 outline-none" />
+          <datalist id="prompt-categories">{categoriesOf(packs.flatMap(p => p.prompts)).map(c => <option key={c} value={c} />)}</datalist>
+          <button onClick={commitEdit} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-[10px] font-black uppercase tracking-widest">Save</button>
+          <button onClick={() => setEditing(null)} className={smallButton}>Cancel</button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3 max-h-[320px] overflow-y-auto p-1">
+        {visible.map(p => (
+            <div key={p.id} className={`relative group p-4 rounded-3xl text-left border-2 transition-all cursor-pointer ${selected.id === p.id ? 'border-indigo-500 bg-indigo-500/20' : 'border-white/5 bg-white/5'}`} onClick={() => onSelect(p)}>
+              <div className="font-bold text-sm mb-1 pr-8">{p.label}</div>
+              <div className="text-[10px] uppercase font-black opacity-50 tracking-widest">{p.difficulty}{p.category && ` · ${p.category}`}</div>
+              {editable && (
+                <div className="absolute top-2 right-2 hidden group-hover:flex gap-1">
+                  <button onClick={e => { e.stopPropagation(); setEditing(p); }} title="Edit" className="w-6 h-6 rounded-md bg-black/40 text-[10px] hover:bg-black/60">✎</button>
+                  <button onClick={e => { e.stopPropagation(); update(deletePrompt(packs, activePack.id, p.id)); }} title="Delete" className="w-6 h-6 rounded-md bg-black/40 text-[10px] text-red-300 hover:bg-black/60">✕</button>
+                </div>
+              )}
+            </div>
+        ))}
+        {editable && (
+          <button onClick={() => setEditing({ id: newId('prompt'), label: '', difficulty: 'Easy' })} className="p-4 rounded-3xl border-2 border-dashed border-white/10 text-slate-500 hover:text-slate-300 hover:border-white/20 font-black text-xs uppercase tracking-widest transition-all">+ Prompt</button>
+        )}
+        {!visible.length && !editable && (
+          <div className="col-span-full py-6 text-center text-xs font-bold text-slate-500">No prompts match.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -0,0 +1,139 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { DrawingRecording } from '../types';
+import { CANVAS_BACKGROUND, renderStrokes } from '../services/strokeRenderer';
+import { REPLAY_SPEEDS, strokesAt, serializeRecording, parseRecording, recordWebm } from '../services/timelapse';
+import { downloadBlob, downloadText, readFileAsText } from '../services/fileUtils';
+
+interface Props {
+  recording: DrawingRecording | null;
+  title?: string;
+}
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ReplayPlayer: React.FC<Props> = ({ recording: initialRecording, title = 'drawing' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [recording, setRecording] = useState<DrawingRecording | null>(initialRecording);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null); // from loading a JSON file or exporting video
+
+  useEffect(() => {
+    setRecording(initialRecording);
+    setPosition(initialRecording?.duration ?? 0);
+    setIsPlaying(false);
+  }, [initialRecording]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !recording) return;
+    if (canvas.width !== recording.width || canvas.height !== recording.height) {
+      canvas.width = recording.width;
+      canvas.height = recording.height;
+    }
+    renderStrokes(canvas, strokesAt(recording, position), CANVAS_BACKGROUND, recording.layers);
+  }, [recording, position]);
+
+  useEffect(() => {
+    if (!isPlaying || !recording) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) * speed;
+      last = now;
+      setPosition(prev => {
+        const next = Math.min(recording.duration, prev + delta);
+        if (next >= recording.duration) setIsPlaying(false);
+        return next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, recording]);
+
+  const togglePlay = () => {
+    if (!recording) return;
+    if (!isPlaying && position >= recording.duration) setPosition(0);
+    setIsPlaying(p => !p);
+  };
+
+  const exportVideo = async () => {
+    if (!recording) return;
+    setIsExporting(true);
+    try {
+      downloadBlob(await recordWebm(recording, speed), `${title}-timelapse.webm`);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export the video');
+    } finally { setIsExporting(false); }
+  };
+
+  const loadRecording = async (file: File) => {
+    try {
+      const loaded = parseRecording(await readFileAsText(file));
+      setRecording(loaded);
+      setPosition(0);
+      setIsPlaying(true);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load recording');
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-3 bg-black/40 p-4 rounded-[2rem] border border-white/10">
+      {recording ? (
+        <canvas ref={canvasRef} className="w-full rounded-2xl border-4 border-slate-700 bg-slate-800" />
+      ) : (
+        <div className="aspect-video flex items-center justify-center text-xs font-black uppercase tracking-widest text-slate-500">No Replay Available</div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button onClick={togglePlay} disabled={!recording} className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-[10px] font-black uppercase tracking-widest disabled:opacity-30 transition-all">
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range" min="0" max={recording?.duration ?? 0} value={position}
+          onChange={(e) => { setIsPlaying(false); setPosition(Number(e.target.value)); }}
+          disabled={!recording}
+          className="flex-1 h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+        <span className="text-[10px] text-white/60 font-mono shrink-0">{formatTime(position)} / {formatTime(recording?.duration ?? 0)}</span>
+        <div className="flex bg-white/5 rounded-xl p-1 border border-white/10 shrink-0">
+          {REPLAY_SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-2.5 py-1 text-[10px] font-black rounded-lg transition-all ${speed === s ? 'bg-indigo-500 text-white' : 'text-white/40 hover:text-white/60'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        {error && <span className="mr-auto text-[10px] text-red-400 font-bold self-center">{error}</span>}
+        <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 transition-colors">
+          Load JSON
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="sr-only" onChange={(e) => { const f = e.target.files?.[0]; if (f) loadRecording(f); e.target.value = ''; }} />
+        <button onClick={() => recording && downloadText(serializeRecording(recording), `${title}-timelapse.json`)} disabled={!recording} className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-[10px] font-bold border border-white/5 disabled:opacity-30 transition-colors">
+          Export JSON
+        </button>
+        <button onClick={exportVideo} disabled={!recording || isExporting} className="px-3 py-1.5 bg-emerald-600/80 hover:bg-emerald-500 rounded-lg text-[10px] font-bold disabled:opacity-30 transition-colors">
+          {isExporting ? 'Recording…' : `Export WebM (${speed}x)`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPlayer;
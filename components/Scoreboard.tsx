@@ -0,0 +1,51 @@
+import React from 'react';
+import { Player, ScoreTable } from '../types';
+import { PLAYER_COLORS } from '../constants';
+
+interface Props {
+  players: Player[]; // roster order decides each player's color
+  scores: ScoreTable;
+  localId?: string;
+  offlineIds?: string[];
+  variant?: 'compact' | 'final';
+  gains?: ScoreTable; // points scored in the last round, shown beside the totals
+  colors?: Record<string, string>; // profile colors, in place of the seat colors
+}
+
+const Scoreboard: React.FC<Props> = ({ players, scores, localId, offlineIds = [], variant = 'compact', gains, colors = {} }) => {
+  const ranked = players
+    .map((player, seat) => ({ player, seat, score: scores[player.id] ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.seat - b.seat);
+  const top = ranked[0]?.score ?? 0;
+  const colorOf = (id: string, seat: number) => colors[id] ?? PLAYER_COLORS[seat % PLAYER_COLORS.length];
+
+  if (variant === 'compact') {
+    return (
+      <div className="flex flex-col gap-1 bg-slate-800/80 p-3 rounded-3xl border border-white/5 min-w-[160px] max-h-[120px] overflow-y-auto">
+        {ranked.map(({ player, seat, score }) => (
+          <div key={player.id} className={`flex items-center gap-2 text-xs font-black ${offlineIds.includes(player.id) ? 'opacity-40' : ''}`}>
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(player.id, seat) }} />
+            <span className={`flex-1 truncate ${player.id === localId ? 'text-white' : 'text-slate-400'}`}>{player.name}</span>
+            <span className="font-bungee" style={{ color: colorOf(player.id, seat) }}>{score}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-2">
+      {ranked.map(({ player, seat, score }, rank) => (
+        <div key={player.id} className={`flex items-center gap-4 px-5 py-3 rounded-2xl border ${score === top && top > 0 ? 'bg-amber-400/10 border-amber-300/40' : 'bg-white/5 border-white/5'}`}>
+          <span className="w-6 text-left font-bungee text-slate-500">{score === top && top > 0 ? '🏆' : rank + 1}</span>
+          <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: colorOf(player.id, seat) }} />
+          <span className="flex-1 text-left font-bold truncate">{player.name}{player.id === localId && <span className="ml-2 text-[10px] text-slate-500 font-black uppercase tracking-widest">You</span>}</span>
+          {gains && <span className="text-xs font-black text-emerald-400">+{gains[player.id] ?? 0}</span>}
+          <span className="font-bungee text-3xl" style={{ color: colorOf(player.id, seat) }}>{score}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Scoreboard;
@@ -3,14 +3,17 @@ import React from 'react';
 import { DrawingPrompt } from './types';
 
 export const PROMPTS: DrawingPrompt[] = [
-  { id: '1', label: 'A futuristic cat', difficulty: 'Easy' },
-  { id: '2', label: 'A spaceship landing on Mars', difficulty: 'Medium' },
-  { id: '3', label: 'A slice of pizza eating a human', difficulty: 'Hard' },
-  { id: '4', label: 'An elephant on a surfboard', difficulty: 'Medium' },
-  { id: '5', label: 'A robot playing the piano', difficulty: 'Easy' },
-  { id: '6', label: 'A haunted toaster', difficulty: 'Hard' },
+  { id: '1', label: 'A futuristic cat', difficulty: 'Easy', category: 'Animals' },
+  { id: '2', label: 'A spaceship landing on Mars', difficulty: 'Medium', category: 'Space' },
+  { id: '3', label: 'A slice of pizza eating a human', difficulty: 'Hard', category: 'Food' },
+  { id: '4', label: 'An elephant on a surfboard', difficulty: 'Medium', category: 'Animals' },
+  { id: '5', label: 'A robot playing the piano', difficulty: 'Easy', category: 'Music' },
+  { id: '6', label: 'A haunted toaster', difficulty: 'Hard', category: 'Spooky' },
 ];
 
+// Seat colors in roster order; the first two match the original You/Rival cyan and pink
+export const PLAYER_COLORS = ['#22d3ee', '#ec4899', '#f59e0b', '#34d399', '#a78bfa', '#fb923c', '#a3e635', '#60a5fa'];
+
 export const Icons = {
   Play: () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="5 3 19 12 5 21 5 3"/></svg>
@@ -0,0 +1,76 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import type { RelayClientMessage, RelayServerMessage } from '../types';
+
+// Minimal room relay for ONLINE mode across machines: clients create or join a room
+// by code, and every message a client sends is fanned out to the rest of its room.
+
+const PORT = Number(process.env.RELAY_PORT ?? 8787);
+const MAX_MESSAGE_BYTES = 2 * 1024 * 1024; // canvas keyframes carry every stroke of a drawing; clients skip larger ones
+
+const rooms = new Map<string, Set<WebSocket>>();
+const roomOf = new Map<WebSocket, string>();
+
+const send = (socket: WebSocket, message: RelayServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const leave = (socket: WebSocket) => {
+  const code = roomOf.get(socket);
+  if (!code) return;
+  roomOf.delete(socket);
+  const members = rooms.get(code);
+  members?.delete(socket);
+  if (members && members.size === 0) {
+    rooms.delete(code);
+    console.log(`room ${code} closed`);
+  }
+};
+
+const enter = (socket: WebSocket, code: string) => {
+  leave(socket);
+  const members = rooms.get(code) ?? new Set<WebSocket>();
+  members.add(socket);
+  rooms.set(code, members);
+  roomOf.set(socket, code);
+  send(socket, { event: 'joined', room: code, peers: members.size - 1 });
+};
+
+const parse = (raw: string): RelayClientMessage | null => {
+  try {
+    const msg = JSON.parse(raw);
+    if ((msg?.action === 'create' || msg?.action === 'join') && typeof msg.room === 'string' && msg.room.length > 0) return msg;
+    if (msg?.action === 'send' && typeof msg.data === 'object' && msg.data !== null) return msg;
+  } catch (e) {}
+  return null;
+};
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('connection', (socket) => {
+  socket.on('message', (raw) => {
+    const msg = parse(raw.toString());
+    if (!msg) return send(socket, { event: 'error', message: 'Malformed relay message' });
+
+    switch (msg.action) {
+      case 'create':
+        if (rooms.has(msg.room)) return send(socket, { event: 'error', message: `Room ${msg.room} already exists` });
+        enter(socket, msg.room);
+        console.log(`room ${msg.room} created`);
+        break;
+      case 'join':
+        if (!rooms.has(msg.room)) return send(socket, { event: 'error', message: `Room ${msg.room} not found` });
+        enter(socket, msg.room);
+        break;
+      case 'send': {
+        const code = roomOf.get(socket);
+        if (!code) return send(socket, { event: 'error', message: 'Join a room before sending' });
+        rooms.get(code)?.forEach(peer => { if (peer !== socket) send(peer, { event: 'message', data: msg.data }); });
+        break;
+      }
+    }
+  });
+  socket.on('close', () => leave(socket));
+  socket.on('error', () => leave(socket));
+});
+
+server.on('listening', () => console.log(`Sketch Master relay listening on ws://0.0.0.0:${PORT}`));
@@ -0,0 +1,35 @@
+export interface ClockSync {
+  /** Current time on the host's clock, in ms since the epoch. */
+  now: () => number;
+  /** Estimated host clock minus local clock, in ms. */
+  offset: () => number;
+  /** Records one ping/pong round trip: local send time, host time in the reply, local receive time. */
+  addSample: (sentAt: number, hostTime: number, receivedAt: number) => void;
+  /** Forget all samples; the local clock becomes the host clock (used by the host itself). */
+  reset: () => void;
+}
+
+const MAX_SAMPLES = 8;
+
+/**
+ * Estimates the offset to the host's clock from ping/pong round trips, assuming the reply
+ * was stamped halfway through the trip. The sample with the shortest round trip among the
+ * most recent ones wins, since it has the least room for asymmetric delay.
+ */
+export function createClockSync(): ClockSync {
+  let samples: { rtt: number; offset: number }[] = [];
+  let best = 0;
+
+  return {
+    now: () => Date.now() + best,
+    offset: () => best,
+    addSample: (sentAt, hostTime, receivedAt) => {
+      const rtt = receivedAt - sentAt;
+      if (rtt < 0) return;
+      samples.push({ rtt, offset: hostTime + rtt / 2 - receivedAt });
+      if (samples.length > MAX_SAMPLES) samples.shift();
+      best = samples.reduce((a, b) => (b.rtt < a.rtt ? b : a)).offset;
+    },
+    reset: () => { samples = []; best = 0; }
+  };
+}
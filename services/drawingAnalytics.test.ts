@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { Stroke } from '../types';
+import { AnalyticsInput, TREND_WINDOW_MS, analyzeDrawing, scoreDrawing } from './drawingAnalytics';
+
+let nextId = 0;
+
+/** A stroke through `[x, y, t]` samples. */
+const stroke = (points: [number, number, number][], extra: Partial<Stroke> = {}): Stroke => ({
+  id: `s${nextId++}`,
+  color: '#000000',
+  width: 4,
+  style: 'solid',
+  points: points.map(([x, y, t]) => ({ x, y, t })),
+  ...extra
+});
+
+const input = (drawn: Stroke[], overrides: Partial<AnalyticsInput> = {}): AnalyticsInput => ({
+  drawn,
+  visible: drawn,
+  undoCount: 0,
+  clearCount: 0,
+  startedAt: 0,
+  now: 20000,
+  width: 1280,
+  height: 800,
+  ...overrides
+});
+
+describe('analyzeDrawing', () => {
+  it('reports zeros for an empty canvas', () => {
+    const a = analyzeDrawing(input([]));
+    expect(a.strokeCount).toBe(0);
+    expect(a.velocity).toEqual({ mean: 0, peak: 0, recent: 0 });
+    expect(a.pauses.count).toBe(0);
+    expect(a.pauses.currentMs).toBe(20000);
+    expect(a.coverage).toEqual({ ratio: 0, boundingBox: null, boundingBoxRatio: 0 });
+    expect(a.correctionRate).toBe(0);
+  });
+
+  it('measures velocity as freehand length over freehand time', () => {
+    const a = analyzeDrawing(input([
+      stroke([[0, 0, 0], [100, 0, 100]]), // 1 px/ms
+      stroke([[0, 10, 200], [0, 110, 250]]) // 2 px/ms
+    ]));
+    expect(a.velocity.mean).toBeCloseTo(200 / 150);
+    expect(a.velocity.peak).toBeCloseTo(2);
+    expect(a.strokeLength).toEqual({ total: 200, mean: 100 });
+  });
+
+  it('leaves shapes and fills out of velocity and stroke length', () => {
+    const drawn = [
+      stroke([[0, 0, 0], [100, 0, 100]]),
+      stroke([[0, 0, 300], [1000, 0, 300]], { tool: 'line' }),
+      stroke([[50, 50, 400]], { tool: 'fill' })
+    ];
+    const a = analyzeDrawing(input(drawn));
+    expect(a.strokeCount).toBe(3);
+    expect(a.velocity.mean).toBeCloseTo(1);
+    expect(a.strokeLength).toEqual({ total: 100, mean: 100 });
+  });
+
+  it('buckets the pauses between strokes', () => {
+    const drawn = [
+      stroke([[0, 0, 0], [10, 0, 100]]),
+      stroke([[0, 0, 500], [10, 0, 600]]), // 400 ms gap
+      stroke([[0, 0, 2600], [10, 0, 2700]]), // 2000 ms
+      stroke([[0, 0, 7000], [10, 0, 7100]]) // 4300 ms
+    ];
+    const a = analyzeDrawing(input(drawn, { now: 8000 }));
+    expect(a.pauses.count).toBe(3);
+    expect(a.pauses.distribution).toEqual({ short: 1, medium: 1, long: 1 });
+    expect(a.pauses.longestMs).toBe(4300);
+    expect(a.pauses.meanMs).toBeCloseTo(6700 / 3);
+    expect(a.pauses.currentMs).toBe(900);
+    expect(a.activeDrawingMs).toBe(400);
+    expect(analyzeDrawing(input(drawn, { now: 8000, drawing: true })).pauses.currentMs).toBe(0);
+  });
+
+  it('measures coverage and the bounding box of visible ink', () => {
+    const line = stroke([[100, 100, 0], [300, 100, 100]], { width: 10 });
+    const eraser = stroke([[1000, 700, 200], [1100, 700, 300]], { tool: 'eraser' });
+    const a = analyzeDrawing(input([line, eraser]));
+    expect(a.coverage.boundingBox).toEqual({ x: 95, y: 95, width: 210, height: 10 });
+    expect(a.coverage.boundingBoxRatio).toBeCloseTo((210 * 10) / (1280 * 800));
+    // A 32×20 grid of 40 px cells: x 100–300 crosses columns 2–7 of one row
+    expect(a.coverage.ratio).toBeCloseTo(6 / 640);
+  });
+
+  it('only counts visible strokes towards coverage', () => {
+    const kept = stroke([[100, 100, 0], [300, 100, 100]]);
+    const undone = stroke([[0, 700, 200], [1200, 700, 300]]);
+    const a = analyzeDrawing(input([kept, undone], { visible: [kept] }));
+    expect(a.strokeCount).toBe(2);
+    expect(a.coverage.boundingBox?.y).toBe(98);
+  });
+
+  it('counts undos, clears and eraser strokes as corrections', () => {
+    const drawn = [
+      stroke([[0, 0, 0], [10, 0, 100]]),
+      stroke([[0, 0, 200], [10, 0, 300]]),
+      stroke([[0, 0, 400], [10, 0, 500]]),
+      stroke([[0, 0, 600], [10, 0, 700]], { tool: 'eraser' })
+    ];
+    expect(analyzeDrawing(input(drawn, { undoCount: 1, clearCount: 1 })).correctionRate).toBeCloseTo(0.75);
+  });
+
+  describe('trend window', () => {
+    const now = 2 * TREND_WINDOW_MS;
+    const slow = stroke([[0, 0, 1000], [50, 0, 1100]]); // previous window, 0.5 px/ms
+    const fast = [stroke([[0, 0, 12000], [100, 0, 12100]]), stroke([[0, 0, 15000], [100, 0, 15100]])]; // recent window, 1 px/ms
+
+    it('compares the latest window with the one before it', () => {
+      const a = analyzeDrawing(input([slow, ...fast], { now }));
+      expect(a.trend.windowMs).toBe(TREND_WINDOW_MS);
+      expect(a.velocity.recent).toBeCloseTo(1);
+      expect(a.trend.velocity).toBe('rising');
+      expect(a.trend.strokesPerMinute).toBe(12);
+      expect(a.trend.previousStrokesPerMinute).toBe(6);
+    });
+
+    it('reports falling and stable speeds', () => {
+      const early = stroke([[0, 0, 1000], [100, 0, 1100]]);
+      const late = stroke([[0, 0, 12000], [50, 0, 12100]]);
+      expect(analyzeDrawing(input([early, late], { now })).trend.velocity).toBe('falling');
+      const similar = stroke([[0, 0, 12000], [110, 0, 12100]]);
+      expect(analyzeDrawing(input([early, similar], { now })).trend.velocity).toBe('stable');
+    });
+
+    it('handles an empty window on either side', () => {
+      expect(analyzeDrawing(input(fast, { now })).trend.velocity).toBe('rising');
+      expect(analyzeDrawing(input([slow], { now })).trend.velocity).toBe('falling');
+      expect(analyzeDrawing(input([], { now })).trend.velocity).toBe('stable');
+    });
+  });
+});
+
+describe('scoreDrawing', () => {
+  it('scores an empty canvas zero', () => {
+    expect(scoreDrawing(analyzeDrawing(input([])))).toEqual({ confidence: 0, efficiency: 0, clarity: 0 });
+  });
+
+  it('rates brisk, uncorrected drawing above slow, hesitant drawing', () => {
+    const brisk = Array.from({ length: 15 }, (_, i) => stroke([[i * 80, 0, i * 1000], [i * 80, 800, i * 1000 + 600]]));
+    const hesitant = Array.from({ length: 5 }, (_, i) => stroke([[100, 100, i * 4000], [120, 100, i * 4000 + 500]]));
+    const good = scoreDrawing(analyzeDrawing(input(brisk, { now: 15000 })));
+    const poor = scoreDrawing(analyzeDrawing(input(hesitant, { now: 20000, undoCount: 3 })));
+    expect(good.confidence).toBeGreaterThan(poor.confidence);
+    expect(good.efficiency).toBeGreaterThan(poor.efficiency);
+    expect(good.clarity).toBeGreaterThan(poor.clarity);
+    for (const score of [...Object.values(good), ...Object.values(poor)]) {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('caps each score at 1', () => {
+    const fast = Array.from({ length: 20 }, (_, i) => stroke([[i * 64, 0, i * 100], [i * 64, 800, i * 100 + 100]]));
+    const scores = scoreDrawing(analyzeDrawing(input(fast, { now: 2000 })));
+    expect(scores.clarity).toBe(1);
+    expect(scores.confidence).toBe(1);
+  });
+});
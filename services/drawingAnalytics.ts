@@ -0,0 +1,246 @@
+import { Stroke, StrokePoint } from '../types';
+
+export type Trend = 'rising' | 'falling' | 'stable';
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DrawingAnalytics {
+  strokeCount: number;
+  elapsedMs: number;
+  activeDrawingMs: number;
+  velocity: {
+    mean: number; // px/ms over all time spent with the pen down
+    peak: number; // fastest single stroke, px/ms
+    recent: number; // mean over the trend window
+  };
+  pauses: {
+    count: number;
+    meanMs: number;
+    longestMs: number;
+    currentMs: number; // since the last stroke ended (0 while drawing)
+    distribution: { short: number; medium: number; long: number }; // <1s, 1–3s, >3s
+  };
+  strokeLength: { // freehand strokes only: shapes and fills are placed, not drawn
+    total: number;
+    mean: number;
+  };
+  curvature: {
+    mean: number; // average absolute turning, radians per px
+  };
+  coverage: {
+    ratio: number; // share of the canvas grid touched by visible ink, 0–1
+    boundingBox: BoundingBox | null;
+    boundingBoxRatio: number; // bounding box area / canvas area
+  };
+  correctionRate: number; // undos, clears and eraser strokes per stroke drawn
+  trend: {
+    windowMs: number;
+    velocity: Trend;
+    strokesPerMinute: number;
+    previousStrokesPerMinute: number;
+  };
+}
+
+export interface AnalyticsInput {
+  drawn: Stroke[]; // every stroke made this round, including ones later undone or cleared
+  visible: Stroke[]; // strokes currently on the canvas
+  undoCount: number;
+  clearCount: number;
+  startedAt: number;
+  now: number;
+  width: number;
+  height: number;
+  drawing?: boolean; // a stroke is in progress right now
+}
+
+export const TREND_WINDOW_MS = 10000;
+const COVERAGE_GRID = { cols: 32, rows: 20 };
+const TREND_THRESHOLD = 0.2; // relative change that counts as rising/falling
+
+const FREEHAND = new Set([undefined, 'brush', 'eraser']);
+
+const distance = (a: StrokePoint, b: StrokePoint) => Math.hypot(b.x - a.x, b.y - a.y);
+
+export function strokeLength(stroke: Stroke): number {
+  let length = 0;
+  for (let i = 1; i < stroke.points.length; i++) length += distance(stroke.points[i - 1], stroke.points[i]);
+  return length;
+}
+
+export function strokeDuration(stroke: Stroke): number {
+  const { points } = stroke;
+  return points.length > 1 ? points[points.length - 1].t - points[0].t : 0;
+}
+
+/** Sum of absolute turning angles along a freehand stroke, in radians. */
+export function strokeTurning(stroke: Stroke): number {
+  const { points } = stroke;
+  let turning = 0;
+  for (let i = 2; i < points.length; i++) {
+    const a = Math.atan2(points[i - 1].y - points[i - 2].y, points[i - 1].x - points[i - 2].x);
+    const b = Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x);
+    let delta = Math.abs(b - a);
+    if (delta > Math.PI) delta = 2 * Math.PI - delta;
+    turning += delta;
+  }
+  return turning;
+}
+
+export function boundingBox(strokes: Stroke[]): BoundingBox | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const stroke of strokes) {
+    if (stroke.tool === 'eraser') continue;
+    const pad = stroke.tool === 'fill' ? 0 : stroke.width / 2;
+    for (const p of stroke.points) {
+      minX = Math.min(minX, p.x - pad); minY = Math.min(minY, p.y - pad);
+      maxX = Math.max(maxX, p.x + pad); maxY = Math.max(maxY, p.y + pad);
+    }
+  }
+  if (minX === Infinity) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** Share of a coarse grid over the canvas that visible ink passes through. */
+export function gridCoverage(strokes: Stroke[], width: number, height: number): number {
+  if (width <= 0 || height <= 0) return 0;
+  const { cols, rows } = COVERAGE_GRID;
+  const cellW = width / cols, cellH = height / rows;
+  const cells = new Set<number>();
+  const mark = (x: number, y: number) => {
+    const col = Math.floor(x / cellW), row = Math.floor(y / cellH);
+    if (col >= 0 && col < cols && row >= 0 && row < rows) cells.add(row * cols + col);
+  };
+  for (const stroke of strokes) {
+    if (stroke.tool === 'eraser' || stroke.tool === 'fill') continue;
+    const { points } = stroke;
+    if (points.length > 0) mark(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) {
+      // Sample along each segment so long straight lines mark every cell they cross
+      const steps = Math.max(1, Math.ceil(distance(points[i - 1], points[i]) / (Math.min(cellW, cellH) / 2)));
+      for (let s = 1; s <= steps; s++) {
+        mark(points[i - 1].x + (points[i].x - points[i - 1].x) * s / steps, points[i - 1].y + (points[i].y - points[i - 1].y) * s / steps);
+      }
+    }
+  }
+  return cells.size / (cols * rows);
+}
+
+const trendOf = (current: number, previous: number): Trend => {
+  if (previous === 0) return current > 0 ? 'rising' : 'stable';
+  const change = (current - previous) / previous;
+  return change > TREND_THRESHOLD ? 'rising' : change < -TREND_THRESHOLD ? 'falling' : 'stable';
+};
+
+function windowVelocity(strokes: Stroke[], from: number, to: number): number {
+  let length = 0, time = 0;
+  for (const stroke of strokes) {
+    const points = stroke.points.filter(p => p.t >= from && p.t < to);
+    for (let i = 1; i < points.length; i++) {
+      length += distance(points[i - 1], points[i]);
+      time += points[i].t - points[i - 1].t;
+    }
+  }
+  return time > 0 ? length / time : 0;
+}
+
+export function analyzeDrawing(input: AnalyticsInput): DrawingAnalytics {
+  const { drawn, visible, now, startedAt } = input;
+  const ordered = [...drawn].sort((a, b) => a.points[0]?.t - b.points[0]?.t);
+  const freehand = ordered.filter(s => FREEHAND.has(s.tool) && s.points.length > 1);
+
+  // Shapes span their full length in no drawing time, so velocity and length come from freehand strokes alone
+  let freehandLength = 0, totalTime = 0, totalTurning = 0, peak = 0;
+  for (const stroke of freehand) {
+    const length = strokeLength(stroke);
+    const duration = strokeDuration(stroke);
+    freehandLength += length;
+    totalTime += duration;
+    totalTurning += strokeTurning(stroke);
+    if (duration > 0) peak = Math.max(peak, length / duration);
+  }
+
+  // Pauses are the gaps between one stroke ending and the next one starting
+  const gaps: number[] = [];
+  let activeDrawingMs = 0;
+  let lastEnd: number | null = null;
+  for (const stroke of ordered) {
+    const { points } = stroke;
+    if (points.length === 0) continue;
+    const start = points[0].t, end = points[points.length - 1].t;
+    if (lastEnd !== null && start > lastEnd) gaps.push(start - lastEnd);
+    activeDrawingMs += end - start;
+    lastEnd = Math.max(lastEnd ?? end, end);
+  }
+  const distribution = { short: 0, medium: 0, long: 0 };
+  gaps.forEach(g => { if (g < 1000) distribution.short++; else if (g <= 3000) distribution.medium++; else distribution.long++; });
+
+  const startsIn = (from: number, to: number) => ordered.filter(s => s.points[0] && s.points[0].t >= from && s.points[0].t < to).length;
+  const recentFrom = now - TREND_WINDOW_MS;
+  const recent = windowVelocity(freehand, recentFrom, now + 1);
+  const previous = windowVelocity(freehand, recentFrom - TREND_WINDOW_MS, recentFrom);
+  const perMinute = 60000 / TREND_WINDOW_MS;
+
+  const box = boundingBox(visible);
+  const canvasArea = input.width * input.height;
+  const eraserStrokes = ordered.filter(s => s.tool === 'eraser').length;
+
+  return {
+    strokeCount: ordered.length,
+    elapsedMs: Math.max(0, now - startedAt),
+    activeDrawingMs,
+    velocity: { mean: totalTime > 0 ? freehandLength / totalTime : 0, peak, recent },
+    pauses: {
+      count: gaps.length,
+      meanMs: gaps.length ? gaps.reduce((a, b) => a + b, 0) / gaps.length : 0,
+      longestMs: gaps.length ? Math.max(...gaps) : 0,
+      currentMs: input.drawing ? 0 : Math.max(0, now - (lastEnd ?? startedAt)),
+      distribution
+    },
+    strokeLength: { total: freehandLength, mean: freehand.length ? freehandLength / freehand.length : 0 },
+    curvature: { mean: freehandLength > 0 ? totalTurning / freehandLength : 0 },
+    coverage: {
+      ratio: gridCoverage(visible, input.width, input.height),
+      boundingBox: box,
+      boundingBoxRatio: box && canvasArea > 0 ? Math.min(1, (box.width * box.height) / canvasArea) : 0
+    },
+    correctionRate: ordered.length ? (input.undoCount + input.clearCount + eraserStrokes) / ordered.length : 0,
+    trend: {
+      windowMs: TREND_WINDOW_MS,
+      velocity: trendOf(recent, previous),
+      strokesPerMinute: startsIn(recentFrom, now + 1) * perMinute,
+      previousStrokesPerMinute: startsIn(recentFrom - TREND_WINDOW_MS, recentFrom) * perMinute
+    }
+  };
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Reference values for normalizing raw measures into 0–1 scores
+const CONFIDENT_VELOCITY = 1.2; // px/ms, a brisk committed line
+const LONG_PAUSE_MS = 4000;
+const WELL_COVERED = 0.25; // share of the grid a readable sketch usually touches
+
+export interface DrawingScores {
+  confidence: number;
+  efficiency: number;
+  clarity: number;
+}
+
+/** Normalized 0–1 judge scores derived from the analytics. */
+export function scoreDrawing(a: DrawingAnalytics): DrawingScores {
+  if (a.strokeCount === 0) return { confidence: 0, efficiency: 0, clarity: 0 };
+  const corrections = clamp01(a.correctionRate);
+  const confidence = 0.45 * clamp01(a.velocity.mean / CONFIDENT_VELOCITY)
+    + 0.3 * (1 - clamp01(a.pauses.meanMs / LONG_PAUSE_MS))
+    + 0.25 * (1 - corrections);
+  const activeShare = a.elapsedMs > 0 ? a.activeDrawingMs / a.elapsedMs : 0;
+  const efficiency = 0.5 * clamp01(activeShare * 2) + 0.5 * (1 - corrections);
+  const clarity = 0.7 * clamp01(a.coverage.ratio / WELL_COVERED) + 0.3 * clamp01(a.strokeCount / 15);
+  return { confidence: round2(confidence), efficiency: round2(efficiency), clarity: round2(clarity) };
+}
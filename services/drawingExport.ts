@@ -0,0 +1,128 @@
+import { DrawingDocument, Layer, Stroke } from '../types';
+import { CANVAS_BACKGROUND, CurveSegment, DEFAULT_LAYER_ID, computeFillMask, createLayer, createLayerCanvas, dashPattern, layerOf, maskToCanvas, pressureWidth, renderLayer, renderStrokes, strokeSegments } from './strokeRenderer';
+
+const STROKE_TOOLS = [undefined, 'brush', 'eraser', 'fill', 'line', 'rect', 'ellipse'];
+
+export function createDocument(strokes: Stroke[], width: number, height: number, layers?: Layer[]): DrawingDocument {
+  return { version: 1, width, height, background: CANVAS_BACKGROUND, layers, strokes };
+}
+
+const documentLayers = (doc: DrawingDocument) => doc.layers ?? [createLayer(DEFAULT_LAYER_ID, 'Layer 1')];
+
+export function serializeDocument(doc: DrawingDocument): string {
+  return JSON.stringify(doc);
+}
+
+/** Shape checks for strokes and layers read from files; also used for recordings (services/timelapse.ts). */
+/** Everything but the points, which travel packed in stroke ops and keyframes. */
+export const isStrokeHead = (s: any): boolean =>
+  typeof s?.id === 'string' && STROKE_TOOLS.includes(s.tool) && typeof s.color === 'string' && typeof s.width === 'number' &&
+  ['solid', 'dashed', 'dotted'].includes(s.style) && [undefined, 'none', 'quadratic', 'catmull-rom'].includes(s.smoothing) &&
+  (s.layerId === undefined || typeof s.layerId === 'string');
+
+export const isStroke = (s: any): s is Stroke =>
+  isStrokeHead(s) && Array.isArray(s.points) &&
+  s.points.every((p: any) => typeof p?.x === 'number' && typeof p.y === 'number' && typeof p.t === 'number');
+
+export const isLayerList = (layers: any): layers is Layer[] | undefined =>
+  layers === undefined || (Array.isArray(layers) && layers.length > 0 && layers.every((l: any) =>
+    typeof l?.id === 'string' && typeof l.name === 'string' && typeof l.visible === 'boolean' &&
+    typeof l.opacity === 'number' && typeof l.locked === 'boolean'));
+
+export function parseDocument(json: string): DrawingDocument {
+  const data = JSON.parse(json);
+  if (data?.version !== 1 || typeof data.width !== 'number' || typeof data.height !== 'number' || !Array.isArray(data.strokes) || !data.strokes.every(isStroke) ||
+    !isLayerList(data.layers)) {
+    throw new Error('Not a Sketch Master drawing');
+  }
+  return { background: CANVAS_BACKGROUND, ...data } as DrawingDocument;
+}
+
+const escapeAttr = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+const num = (n: number) => Math.round(n * 100) / 100;
+
+function strokeToSvg(stroke: Stroke, color = stroke.color): string {
+  const { points } = stroke;
+  if (points.length === 0) return '';
+  const dash = dashPattern(stroke.style, stroke.width);
+  const common = `stroke="${escapeAttr(color)}" fill="none" stroke-linecap="round" stroke-linejoin="round"${dash.length ? ` stroke-dasharray="${dash.map(num).join(' ')}"` : ''}`;
+
+  const start = points[0], end = points[points.length - 1];
+  if (stroke.tool === 'line') {
+    return `<line x1="${num(start.x)}" y1="${num(start.y)}" x2="${num(end.x)}" y2="${num(end.y)}" stroke-width="${num(stroke.width)}" ${common}/>`;
+  }
+  if (stroke.tool === 'rect') {
+    return `<rect x="${num(Math.min(start.x, end.x))}" y="${num(Math.min(start.y, end.y))}" width="${num(Math.abs(end.x - start.x))}" height="${num(Math.abs(end.y - start.y))}" stroke-width="${num(stroke.width)}" ${common}/>`;
+  }
+  if (stroke.tool === 'ellipse') {
+    return `<ellipse cx="${num((start.x + end.x) / 2)}" cy="${num((start.y + end.y) / 2)}" rx="${num(Math.abs(end.x - start.x) / 2)}" ry="${num(Math.abs(end.y - start.y) / 2)}" stroke-width="${num(stroke.width)}" ${common}/>`;
+  }
+
+  const segments = strokeSegments(points, stroke.smoothing);
+  const curve = (seg: CurveSegment) => ` C${num(seg.cp1.x)} ${num(seg.cp1.y)} ${num(seg.cp2.x)} ${num(seg.cp2.y)} ${num(seg.to.x)} ${num(seg.to.y)}`;
+
+  if (points[0].p !== undefined && segments.length > 0) {
+    // SVG strokes have a single width, so pressure strokes become one path per segment
+    let travelled = 0;
+    const paths = segments.map(seg => {
+      const width = pressureWidth(stroke.width, ((seg.from.p ?? 0.5) + (seg.to.p ?? 0.5)) / 2);
+      const offset = dash.length ? ` stroke-dashoffset="${num(travelled)}"` : '';
+      travelled += Math.hypot(seg.to.x - seg.from.x, seg.to.y - seg.from.y);
+      return `<path d="M${num(seg.from.x)} ${num(seg.from.y)}${curve(seg)}" stroke-width="${num(width)}"${offset}/>`;
+    });
+    return `<g ${common}>${paths.join('')}</g>`;
+  }
+
+  const tail = segments.length > 0 ? segments.map(curve).join('') : ` L${num(points[0].x)} ${num(points[0].y)}`;
+  const d = `M${num(points[0].x)} ${num(points[0].y)}${tail}`;
+  return `<path d="${d}" stroke-width="${num(stroke.width)}" ${common}/>`;
+}
+
+// Flood fills depend on the pixels underneath, so they are rasterized and embedded as images
+function fillToSvg(doc: DrawingDocument, index: number): string {
+  const stroke = doc.strokes[index];
+  const canvas = createLayerCanvas(doc.width, doc.height);
+  renderLayer(canvas, doc.strokes.slice(0, index).filter(s => layerOf(s) === layerOf(stroke)));
+  const image = canvas.getContext('2d')!.getImageData(0, 0, doc.width, doc.height);
+  const mask = computeFillMask(image, stroke.points[0].x, stroke.points[0].y, stroke.tolerance ?? 0);
+  const href = maskToCanvas(mask, doc.width, doc.height, stroke.color).toDataURL('image/png');
+  return `<image x="0" y="0" width="${doc.width}" height="${doc.height}" href="${href}"/>`;
+}
+
+export function documentToSvg(doc: DrawingDocument, options: { transparent?: boolean } = {}): string {
+  const defs: string[] = [];
+  // Hidden layers are kept as hidden groups so vector tools can still reveal them
+  const groups = documentLayers(doc).map(layer => {
+    let content = '';
+    doc.strokes.forEach((stroke, i) => {
+      if (layerOf(stroke) !== layer.id) return;
+      if (stroke.tool === 'eraser') {
+        // Erasing masks out everything drawn so far on this layer, mirroring destination-out on the canvas
+        const id = `erase-${defs.length}`;
+        defs.push(`<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${doc.width}" height="${doc.height}"><rect width="100%" height="100%" fill="#fff"/>${strokeToSvg(stroke, '#000')}</mask>`);
+        content = `<g mask="url(#${id})">${content}</g>`;
+      } else if (stroke.tool === 'fill') {
+        content += `\n${fillToSvg(doc, i)}`;
+      } else {
+        content += `\n${strokeToSvg(stroke)}`;
+      }
+    });
+    return `<g id="${escapeAttr(layer.id)}" data-name="${escapeAttr(layer.name)}" opacity="${num(layer.opacity)}"${layer.visible ? '' : ' display="none"'}>${content}\n</g>`;
+  });
+  const background = options.transparent ? '' : `<rect width="100%" height="100%" fill="${escapeAttr(doc.background)}"/>`;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${doc.width}" height="${doc.height}" viewBox="0 0 ${doc.width} ${doc.height}">`,
+    defs.length ? `<defs>${defs.join('')}</defs>` : '',
+    background,
+    ...groups,
+    '</svg>'
+  ].join('\n');
+}
+
+export function documentToPng(doc: DrawingDocument, options: { transparent?: boolean } = {}): Promise<Blob> {
+  const canvas = createLayerCanvas(doc.width, doc.height);
+  renderStrokes(canvas, doc.strokes, options.transparent ? null : doc.background, documentLayers(doc));
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+}
@@ -0,0 +1,266 @@
+import { GoogleGenAI, Modality, LiveServerMessage, Type, FunctionDeclaration } from '@google/genai';
+import { encode, decode, decodeAudioData } from './audioUtils';
+import { GameMode, TranscriptionItem } from '../types';
+import { Judge, JudgeConfig, JudgeEvents, JudgePlayer, JudgeSession, JudgeState } from './judge';
+
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+const MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+const SYSTEM_PROMPT = `
+## 🎮 SYSTEM PROMPT — Sketch Master AI
+
+**Role:**
+You are Sketch Master AI, a live drawing game commentator and judge.
+You watch players draw in real time and provide short, witty, emotionally intelligent voice commentary that reacts to how they are drawing — speed, hesitation, confidence, corrections — not just what they draw.
+
+### 🎯 Core Behavior Rules
+* Speak in short, punchy sentences (5–12 words).
+* Do not narrate every stroke.
+* Comment only when something meaningful happens.
+* Tone: playful, observant, slightly dramatic.
+* You can judge a single player (SOLO) or compare several players (BATTLE/ONLINE, up to 8).
+* If several players are present, use their metrics to decide who to praise or tease.
+* In COOP the players share one canvas as a team: judge the team as a whole and award points to the team entry.
+* DEVELOPER STATE lists metrics per player under \`players\`, keyed by player id. Compare them directly.
+
+### 🧠 Interpretation Rules
+Interpret numeric scores as normalized (0–1).
+Only speak if:
+- commentary.cooldown_active is false.
+- events contains at least one true value.
+- time.remaining_pct crosses 0.30, 0.15, or 0.05.
+- a player's tools.last_used changes to something other than "brush" (e.g. "Went for the bucket tool!").
+
+### 🏆 Scoring Rules
+- Use the awardPoints tool frequently when you see good effort, confidence, or creative shapes.
+- Use deductPoints sparingly, for lazy scribbles or drawing something other than the prompt, and always say why.
+- When you receive DEVELOPER STATE (GAME OVER), call declareWinner once with the best drawing and a one-line reason.
+- Always pass a player id from the PLAYERS list to every tool, and call players by name, never by id.
+
+### 🛠️ Interaction Tools
+- giveTip: a short, concrete hint for one player that appears on their canvas. Use it when a player is stuck or drifting from the prompt.
+- guessDrawing: your honest current guess at what a player's drawing shows, like a guessing game. Guess again as the drawing changes.
+`;
+
+const describePlayers = (players: JudgePlayer[]) => players.map(p => `\`${p.id}\` (${p.name})`).join(', ');
+
+const playerIdParam = (players: JudgePlayer[]) => ({ type: Type.STRING, enum: players.map(p => p.id), description: `Player id, one of ${describePlayers(players)}.` });
+
+const declareTool = (name: string, description: string, players: JudgePlayer[], properties: Record<string, { type: Type; description: string }>): FunctionDeclaration => ({
+  name,
+  parameters: {
+    type: Type.OBJECT,
+    description,
+    properties: { playerId: playerIdParam(players), ...properties },
+    required: ['playerId', ...Object.keys(properties)],
+  },
+});
+
+// Tips and guesses are for everyone's judge; only the scoring judge may change points or pick the winner
+const interactionTools = (players: JudgePlayer[]): FunctionDeclaration[] => [
+  declareTool('giveTip', 'Show a short drawing hint on one player\'s canvas.', players, {
+    tip: { type: Type.STRING, description: 'The hint, under 12 words.' },
+  }),
+  declareTool('guessDrawing', 'Say what you think a player\'s drawing currently shows.', players, {
+    guess: { type: Type.STRING, description: 'Your guess, a few words.' },
+  }),
+];
+
+const scoringTools = (players: JudgePlayer[]): FunctionDeclaration[] => [
+  declareTool('awardPoints', 'Award points to a specific user for their drawing progress and creativity.', players, {
+    points: { type: Type.NUMBER, description: 'Points (10-100).' },
+    reason: { type: Type.STRING, description: 'Reason for award.' },
+  }),
+  declareTool('deductPoints', 'Take points from a player for lazy scribbles or drawing something off-prompt.', players, {
+    points: { type: Type.NUMBER, description: 'Points to take away (5-50).' },
+    reason: { type: Type.STRING, description: 'Why the points are deducted.' },
+  }),
+  declareTool('declareWinner', 'Name the best drawing of the round once the game is over.', players, {
+    reason: { type: Type.STRING, description: 'One line on why this drawing wins.' },
+  }),
+];
+
+// The secret prompt must never reach the model in GUESS
+const roundNote = (config: JudgeConfig) => `
+### 🖌️ THIS ROUND
+Mode: ${config.gameMode}
+${config.gameMode === GameMode.GUESS ? '' : `The prompt is: "${config.prompt.label}". Judge every drawing against it.\n`}`;
+
+const rosterNote = (players: JudgePlayer[]) => `
+### 👥 PLAYERS
+${players.map(p => `- id \`${p.id}\`: ${p.name}`).join('\n')}
+The \`players\` metrics in DEVELOPER STATE and the panels in each frame are labeled with these names.
+`;
+
+const COMMENTARY_ONLY_NOTE = `
+### 🎙️ Commentary Only
+The host's judge keeps score and picks the winner in this round. You have no scoring tools; never promise or announce points.
+`;
+
+// Replaces the judging rules: in GUESS the only job is to name what is being drawn
+const GUESS_NOTE = `
+### 🔍 GUESS MODE
+This round is a guessing game. The player drew a secret prompt that you are not told.
+- Ignore the Scoring Rules above and don't use giveTip; your only tool is guessDrawing.
+- Watch the frames and call guessDrawing whenever you have a new idea of what the drawing shows. Guess early and often.
+- Say each guess out loud too, in a few playful words.
+- The tool answers "correct" or "wrong". After "wrong", never repeat that guess; try a different object or a more specific phrase.
+- After "correct", celebrate briefly and stop guessing.
+`;
+
+// Shared across rounds; browsers limit how many AudioContexts a page may create
+let audioContexts: { input: AudioContext; output: AudioContext } | null = null;
+
+const getAudioContexts = () => {
+  if (!audioContexts) audioContexts = { input: new AudioContext({ sampleRate: INPUT_SAMPLE_RATE }), output: new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE }) };
+  return audioContexts;
+};
+
+const asError = (err: unknown, fallback: string) => err instanceof Error ? err : new Error(fallback);
+
+export interface GeminiJudgeOptions {
+  /** Captions only: the voice is not played, but its transcription still arrives through onTranscript. */
+  muted?: boolean;
+}
+
+/** Gemini Live judge: streams the mic, frames and metrics, and plays back the model's voice. */
+export function createGeminiJudge(options: GeminiJudgeOptions = {}): Judge {
+  return {
+    start: async (config: JudgeConfig, events: JudgeEvents): Promise<JudgeSession> => {
+      if (!process.env.API_KEY) throw new Error('No Gemini API key configured. Pick the Local judge to play offline.');
+      let stream: MediaStream | null = null;
+      if (config.listens !== false) {
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch (err) {
+          throw new Error('Microphone access is required for the Gemini judge.');
+        }
+      }
+
+      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const guessing = config.gameMode === GameMode.GUESS;
+      const scoring = config.awardsPoints !== false && !guessing;
+      const { input: inputCtx, output: outputCtx } = getAudioContexts();
+      const sources = new Set<AudioBufferSourceNode>();
+      let nextStartTime = 0;
+      let scriptProcessor: ScriptProcessorNode | null = null;
+      let closed = false;
+      // Transcription arrives in fragments; a finished or interrupted turn starts a new caption
+      let lastSpeaker: TranscriptionItem['type'] | null = null;
+
+      const fail = (error: Error) => {
+        if (closed) return;
+        closed = true;
+        release();
+        events.onError(error);
+      };
+
+      const release = () => {
+        scriptProcessor?.disconnect();
+        stream?.getTracks().forEach(track => track.stop());
+        sources.forEach(source => { try { source.stop(); } catch (e) {} });
+        sources.clear();
+        nextStartTime = 0;
+      };
+
+      const sessionPromise = ai.live.connect({
+        model: MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
+          outputAudioTranscription: {},
+          ...(stream ? { inputAudioTranscription: {} } : {}),
+          tools: [{ functionDeclarations: guessing
+            ? interactionTools(config.players).filter(tool => tool.name === 'guessDrawing')
+            : [...interactionTools(config.players), ...(scoring ? scoringTools(config.players) : [])] }],
+          systemInstruction: SYSTEM_PROMPT + roundNote(config) + rosterNote(config.players) + (guessing ? GUESS_NOTE : scoring ? '' : COMMENTARY_ONLY_NOTE),
+        },
+        callbacks: {
+          onopen: () => {
+            if (!stream) return;
+            const source = inputCtx.createMediaStreamSource(stream);
+            scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
+            scriptProcessor.onaudioprocess = (e) => {
+              if (closed) return;
+              const inputData = e.inputBuffer.getChannelData(0);
+              const int16 = new Int16Array(inputData.length);
+              for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
+              sessionPromise.then(s => s.sendRealtimeInput({ media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } }));
+            };
+            source.connect(scriptProcessor); scriptProcessor.connect(inputCtx.destination);
+          },
+          onmessage: async (msg: LiveServerMessage) => {
+            if (closed) return;
+            if (msg.toolCall) {
+              for (const fc of msg.toolCall.functionCalls) {
+                const args = (fc.args ?? {}) as Record<string, unknown>;
+                const playerId = String(args.playerId);
+                const known = config.players.some(p => p.id === playerId);
+                const points = Math.abs(Number(args.points)) || 0;
+                let result = 'ok';
+                if (known) {
+                  switch (fc.name) {
+                    case 'giveTip': if (!guessing) events.onTip({ playerId, tip: String(args.tip) }); break;
+                    case 'guessDrawing': {
+                      const correct = events.onGuess({ playerId, guess: String(args.guess) });
+                      if (guessing) result = correct ? 'correct' : 'wrong';
+                      break;
+                    }
+                    case 'awardPoints': if (scoring) events.onAward({ playerId, points, reason: String(args.reason) }); break;
+                    case 'deductPoints': if (scoring) events.onDeduct({ playerId, points, reason: String(args.reason) }); break;
+                    case 'declareWinner': if (scoring) events.onVerdict({ playerId, reason: String(args.reason) }); break;
+                  }
+                }
+                sessionPromise.then(s => s.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result } } }));
+              }
+            }
+            const content = msg.serverContent;
+            const caption = (type: TranscriptionItem['type'], text?: string) => {
+              if (!text) return;
+              events.onTranscript({ type, text }, lastSpeaker !== type);
+              lastSpeaker = type;
+            };
+            caption('user', content?.inputTranscription?.text);
+            caption('model', content?.outputTranscription?.text);
+            if (content?.turnComplete || content?.interrupted) lastSpeaker = null;
+            const base64Audio = content?.modelTurn?.parts[0]?.inlineData?.data;
+            if (base64Audio) {
+              events.onCommentary({});
+              if (options.muted) return;
+              nextStartTime = Math.max(nextStartTime, outputCtx.currentTime);
+              const buffer = await decodeAudioData(decode(base64Audio), outputCtx, OUTPUT_SAMPLE_RATE, 1);
+              const source = outputCtx.createBufferSource(); source.buffer = buffer; source.connect(outputCtx.destination); source.start(nextStartTime);
+              nextStartTime += buffer.duration; sources.add(source);
+              source.onended = () => sources.delete(source);
+            }
+          },
+          onerror: (e: ErrorEvent) => fail(new Error(e.message || 'Gemini Live connection error')),
+          onclose: (e: CloseEvent) => fail(new Error(e.reason ? `Gemini Live closed the session: ${e.reason}` : 'Gemini Live closed the session'))
+        }
+      });
+
+      let session: Awaited<typeof sessionPromise>;
+      try {
+        session = await sessionPromise;
+      } catch (err) {
+        closed = true;
+        release();
+        throw asError(err, 'Could not connect to Gemini Live');
+      }
+
+      return {
+        pushFrame: (jpeg: string) => { if (!closed) session.sendRealtimeInput({ media: { data: jpeg, mimeType: 'image/jpeg' } }); },
+        pushMetrics: (state: JudgeState) => {
+          if (!closed) session.sendRealtimeInput({ text: `DEVELOPER STATE${state.phase === 'end' ? ' (GAME OVER)' : ''}:\n${JSON.stringify(state)}` });
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          release();
+          session.close();
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DrawingPrompt } from '../types';
+import { guessScore, matchesPrompt } from './guessMatch';
+
+const prompt = (label: string): DrawingPrompt => ({ id: label, label, difficulty: 'Easy' });
+
+describe('matchesPrompt', () => {
+  it('accepts synonyms, plurals and small typos', () => {
+    expect(matchesPrompt('kitties', prompt('A futuristic cat'))).toBe(true);
+    expect(matchesPrompt('spacecraft landing', prompt('A spaceship landing on Mars'))).toBe(true);
+    expect(matchesPrompt('elephnt', prompt('An elephant on a surfboard'))).toBe(true);
+    expect(matchesPrompt('spacship', prompt('A spaceship'))).toBe(true);
+    expect(matchesPrompt('A haunted toastr!', prompt('A haunted toaster'))).toBe(true);
+  });
+
+  it('needs at least half of the prompt', () => {
+    expect(matchesPrompt('spaceship', prompt('A spaceship landing on Mars'))).toBe(false);
+    expect(matchesPrompt('dog', prompt('A futuristic cat'))).toBe(false);
+  });
+
+  it('rejects scattershot guesses', () => {
+    expect(matchesPrompt('a cat, dog, house, robot or tree', prompt('A futuristic cat'))).toBe(false);
+    expect(matchesPrompt('robot or cat', prompt('A robot playing the piano'))).toBe(false);
+    expect(matchesPrompt('futuristic robot cat', prompt('A futuristic cat'))).toBe(true);
+  });
+
+  it('does not accept a different word one letter away', () => {
+    expect(matchesPrompt('mouse', prompt('A house'))).toBe(false);
+    expect(matchesPrompt('horse', prompt('A house'))).toBe(false);
+    expect(matchesPrompt('coaster', prompt('A haunted toaster'))).toBe(false);
+  });
+
+  it('does not treat related words as synonyms', () => {
+    expect(matchesPrompt('planet', prompt('Mars'))).toBe(false);
+    expect(matchesPrompt('oven', prompt('A haunted toaster'))).toBe(false);
+    expect(matchesPrompt('spooky toaster', prompt('A haunted toaster'))).toBe(true);
+    expect(matchesPrompt('spooky oven', prompt('A haunted toaster'))).toBe(false);
+    expect(matchesPrompt('rocket', prompt('A spaceship'))).toBe(false);
+    expect(matchesPrompt('truck', prompt('A car'))).toBe(false);
+    expect(matchesPrompt('vehicle', prompt('A car'))).toBe(false);
+    expect(matchesPrompt('shark', prompt('A fish'))).toBe(false);
+    expect(matchesPrompt('oak', prompt('A tree'))).toBe(false);
+    expect(matchesPrompt('rose', prompt('A flower'))).toBe(false);
+    expect(matchesPrompt('parrot', prompt('A bird'))).toBe(false);
+    expect(matchesPrompt('hut', prompt('A house'))).toBe(false);
+    expect(matchesPrompt('board on a wave', prompt('An elephant on a surfboard'))).toBe(false);
+    expect(matchesPrompt('space cat', prompt('A futuristic cat'))).toBe(true);
+    expect(matchesPrompt('space', prompt('A futuristic cat'))).toBe(false);
+  });
+});
+
+describe('guessScore', () => {
+  it('rewards quick guesses on few strokes', () => {
+    expect(guessScore(0, 60000, 0)).toBe(150);
+    expect(guessScore(30000, 60000, 10)).toBe(80);
+    expect(guessScore(90000, 60000, 40)).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+import { DrawingPrompt } from '../types';
+
+// Fuzzy matching of the judge's guesses against the secret prompt in GUESS mode
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'on', 'in', 'at', 'to', 'with', 'and', 'is', 'it', 'its', 'some', 'my', 'his', 'her', 'their', 'that', 'this', 'playing', 'doing']);
+
+// Words in one group count as the same word; the first is the canonical form.
+// Only true synonyms and word forms: a broader, narrower or related word ("vehicle" or "truck" for car,
+// "planet" for Mars) names something else and would accept wrong guesses.
+const SYNONYMS: string[][] = [
+  ['cat', 'kitty', 'feline'],
+  ['dog', 'doggy'],
+  ['human', 'person', 'people'],
+  ['spaceship', 'spacecraft', 'starship'],
+  ['landing', 'land', 'landed'],
+  ['robot', 'droid'],
+  ['futuristic', 'future'],
+  ['eating', 'eat', 'eats', 'ate', 'eaten', 'devouring'],
+  ['house', 'home'],
+  ['car', 'automobile'],
+  ['flower', 'blossom']
+];
+
+const CANONICAL = new Map<string, string>(SYNONYMS.flatMap(group => group.map(word => [word, group[0]] as [string, string])));
+
+/** Crude English singular: cats → cat, puppies → puppy, boxes → box; leaves words like "glass" alone. */
+export function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+const canonical = (word: string) => CANONICAL.get(word) ?? CANONICAL.get(singular(word)) ?? singular(word);
+
+/** The words that carry meaning, lower-cased, singular and mapped to their synonym group. */
+export function contentWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(canonical);
+}
+
+// One missing or extra letter is forgiven in longer words, e.g. "elephnt" or "spacship". A swapped
+// letter is not: it too often makes another real word ("mouse" for house, "coaster" for toaster).
+function closeEnough(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 5 || Math.abs(a.length - b.length) !== 1) return false;
+  const [long, short] = a.length > b.length ? [a, b] : [b, a];
+  let i = 0;
+  while (i < short.length && long[i] === short[i]) i++;
+  return long.slice(i + 1) === short.slice(i);
+}
+
+/**
+ * A guess is right when it names at least half of the prompt's content words, so "cat" solves
+ * "A futuristic cat" and "spacecraft landing" solves "A spaceship landing on Mars". Words that match
+ * nothing may not outnumber the ones that do, so listing several things at once doesn't pay off.
+ */
+export function matchesPrompt(guess: string, prompt: DrawingPrompt): boolean {
+  const target = [...new Set(contentWords(prompt.label))];
+  const words = [...new Set(contentWords(guess))];
+  if (!target.length || !words.length) return false;
+  const hits = target.filter(t => words.some(w => closeEnough(w, t))).length;
+  const misses = words.filter(w => !target.some(t => closeEnough(w, t))).length;
+  return hits >= Math.ceil(target.length / 2) && misses <= hits;
+}
+
+/** Up to 100 points for speed plus up to 50 for drawing it in few strokes. */
+export function guessScore(elapsedMs: number, durationMs: number, strokes: number): number {
+  const speed = Math.max(0, 1 - elapsedMs / durationMs);
+  return Math.round(100 * speed) + Math.max(0, 50 - 2 * strokes);
+}
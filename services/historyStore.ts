@@ -0,0 +1,69 @@
+import { RoundRecord } from '../types';
+
+// Finished rounds are kept in IndexedDB: drawings and AI images are too big for localStorage
+
+const DB_NAME = 'sketch-master';
+const DB_VERSION = 1;
+const ROUNDS = 'rounds';
+const EXPORT_FORMAT = 'sketch-master-round';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => {
+        if (e.oldVersion < 1) request.result.createObjectStore(ROUNDS, { keyPath: 'id' }).createIndex('date', 'date');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open the match history'));
+    });
+    // Let the next call try again, e.g. after the user allows storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+/** Runs `fn` in one transaction and resolves with its request's result once the transaction commits. */
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(ROUNDS, mode);
+    const request = fn(tx.objectStore(ROUNDS));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('The match history transaction was aborted'));
+  });
+}
+
+export async function saveRound(record: RoundRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(record));
+}
+
+/** Newest first. */
+export async function listRounds(): Promise<RoundRecord[]> {
+  const records = await withStore<RoundRecord[]>('readonly', store => store.index('date').getAll());
+  return (records ?? []).reverse();
+}
+
+export async function updateRound(id: string, patch: Partial<Omit<RoundRecord, 'id'>>): Promise<void> {
+  await withStore('readwrite', store => {
+    const get = store.get(id);
+    get.onsuccess = () => { if (get.result) store.put({ ...get.result, ...patch }); };
+  });
+}
+
+export async function deleteRound(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export function exportRound(record: RoundRecord): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: 1, round: record }, null, 2);
+}
+
+/** The entry with the most points this round, for the gallery's cover image. */
+export function bestDrawing(record: RoundRecord): string | null {
+  const ids = Object.keys(record.drawings).sort((a, b) => (record.scores[b] ?? 0) - (record.scores[a] ?? 0));
+  return ids.length ? record.drawings[ids[0]] : null;
+}
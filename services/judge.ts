@@ -0,0 +1,88 @@
+import { DrawingPrompt, GameMode, TranscriptionItem } from '../types';
+import { PlayerMetrics } from './judgeMetrics';
+
+/** The DEVELOPER STATE the game pushes to the judge every few seconds. */
+export interface JudgeState {
+  phase: 'live' | 'end';
+  time: { remaining_pct: number };
+  players: Record<string, PlayerMetrics>;
+  commentary: { cooldown_active: boolean; comments_used: number };
+}
+
+/** Player ids are session ids in ONLINE rooms and '1'/'2' for players sharing one screen. */
+export interface JudgePlayer {
+  id: string;
+  name: string;
+}
+
+export interface JudgeAward {
+  playerId: string;
+  points: number;
+  reason: string;
+}
+
+export interface JudgeTip {
+  playerId: string;
+  tip: string;
+}
+
+/** What the judge thinks a player is drawing right now. */
+export interface JudgeGuess {
+  playerId: string;
+  guess: string;
+}
+
+export interface JudgeVerdict {
+  playerId: string;
+  reason: string;
+}
+
+/** `text` is absent when the judge speaks with its own voice (audio is played by the judge). */
+export interface JudgeCommentary {
+  text?: string;
+}
+
+export interface JudgeEvents {
+  onCommentary: (commentary: JudgeCommentary) => void;
+  onAward: (award: JudgeAward) => void;
+  /** `points` is the amount taken away. */
+  onDeduct: (deduction: JudgeAward) => void;
+  onTip: (tip: JudgeTip) => void;
+  /** In GUESS mode, returns whether the guess names the secret prompt; the judge is told right or wrong. */
+  onGuess: (guess: JudgeGuess) => boolean | void;
+  /** The judge's pick of the round, after the final metrics. */
+  onVerdict: (verdict: JudgeVerdict) => void;
+  /** Caption text as it streams in; `newTurn` starts a new caption rather than extending the last one of that type. */
+  onTranscript: (chunk: TranscriptionItem, newTurn: boolean) => void;
+  /** The session failed or dropped; it is unusable afterwards. Not called for `close()`. */
+  onError: (error: Error) => void;
+}
+
+export interface JudgeConfig {
+  gameMode: GameMode;
+  prompt: DrawingPrompt;
+  players: JudgePlayer[];
+  /** False for ONLINE guests: they get commentary, tips and guesses, but the host's judge keeps score and picks the winner. */
+  awardsPoints?: boolean;
+  /** False when nobody at this screen is drawing (spectators): the judge won't ask for the microphone. */
+  listens?: boolean;
+}
+
+export interface JudgeSession {
+  /** A JPEG snapshot (base64, no data: prefix) of the player canvases. */
+  pushFrame: (jpeg: string) => void;
+  pushMetrics: (state: JudgeState) => void;
+  close: () => void;
+}
+
+export interface Judge {
+  /** Resolves once the session is live; rejects if it could not be started. */
+  start: (config: JudgeConfig, events: JudgeEvents) => Promise<JudgeSession>;
+}
+
+export type JudgeKind = 'gemini' | 'local';
+
+export const JUDGE_KINDS: { kind: JudgeKind; label: string; description: string }[] = [
+  { kind: 'gemini', label: 'Gemini Live', description: 'Watches the canvas and talks back. Needs a network and an API key.' },
+  { kind: 'local', label: 'Local', description: 'Rule-based judge that scores from drawing metrics. Works offline.' }
+];
@@ -0,0 +1,64 @@
+import { DrawingMetrics } from '../components/DrawingCanvas';
+import { scoreDrawing } from './drawingAnalytics';
+
+/** One player's block of the DEVELOPER STATE sent to the judge; also what ONLINE peers sync. */
+export interface PlayerMetrics {
+  confidence: { score: number; trend: string; hesitation_seconds: number; redraw_rate: number };
+  efficiency: { score: number; panic_detected: boolean };
+  clarity: { score: number; recognizable_early: boolean };
+  strokes: {
+    count: number;
+    velocity_px_per_ms: number;
+    recent_velocity_px_per_ms: number;
+    mean_length_px: number;
+    curvature_rad_per_px: number;
+    strokes_per_minute: number;
+  };
+  pauses: { mean_seconds: number; longest_seconds: number; distribution: { short: number; medium: number; long: number } };
+  coverage: { ratio: number; bounding_box_ratio: number };
+  tools: { last_used: string | null; usage: Record<string, number> };
+}
+
+const round = (n: number, digits = 2) => parseFloat(n.toFixed(digits));
+
+export function buildPlayerMetrics(metrics: DrawingMetrics, timeRemainingPct: number): PlayerMetrics {
+  const { analytics } = metrics;
+  const scores = scoreDrawing(analytics);
+  return {
+    confidence: {
+      score: scores.confidence,
+      trend: analytics.trend.velocity,
+      hesitation_seconds: round(analytics.pauses.currentMs / 1000, 1),
+      redraw_rate: round(analytics.correctionRate)
+    },
+    efficiency: {
+      score: scores.efficiency,
+      panic_detected: timeRemainingPct < 0.15 && analytics.trend.velocity === 'rising' && analytics.velocity.recent > analytics.velocity.mean * 1.5
+    },
+    clarity: {
+      score: scores.clarity,
+      recognizable_early: analytics.coverage.ratio > 0.15 && timeRemainingPct > 0.5
+    },
+    strokes: {
+      count: analytics.strokeCount,
+      velocity_px_per_ms: round(analytics.velocity.mean),
+      recent_velocity_px_per_ms: round(analytics.velocity.recent),
+      mean_length_px: Math.round(analytics.strokeLength.mean),
+      curvature_rad_per_px: round(analytics.curvature.mean, 3),
+      strokes_per_minute: analytics.trend.strokesPerMinute
+    },
+    pauses: {
+      mean_seconds: round(analytics.pauses.meanMs / 1000, 1),
+      longest_seconds: round(analytics.pauses.longestMs / 1000, 1),
+      distribution: analytics.pauses.distribution
+    },
+    coverage: {
+      ratio: round(analytics.coverage.ratio),
+      bounding_box_ratio: round(analytics.coverage.boundingBoxRatio)
+    },
+    tools: {
+      last_used: metrics.lastTool,
+      usage: metrics.toolUsage as Record<string, number>
+    }
+  };
+}
@@ -0,0 +1,163 @@
+import { GameMode } from '../types';
+import { Judge, JudgeConfig, JudgeEvents, JudgeSession, JudgeState } from './judge';
+import { PlayerMetrics } from './judgeMetrics';
+
+export interface LocalJudgeOptions {
+  /** Read commentary aloud with the browser's speech synthesis, when available. */
+  speak?: boolean;
+}
+
+interface Milestone {
+  id: string;
+  points: number;
+  reason: string;
+  reached: (m: PlayerMetrics) => boolean;
+}
+
+interface TipRule {
+  id: string;
+  tip: string;
+  applies: (m: PlayerMetrics, remainingPct: number) => boolean;
+}
+
+// Each milestone is awarded at most once per player per round
+const MILESTONES: Milestone[] = [
+  { id: 'first-stroke', points: 10, reason: 'First mark on the page', reached: m => m.strokes.count >= 1 },
+  { id: 'committed', points: 25, reason: 'Confident, committed lines', reached: m => m.strokes.count >= 5 && m.confidence.score >= 0.6 },
+  { id: 'coverage', points: 20, reason: 'Filling out the canvas', reached: m => m.coverage.ratio >= 0.15 },
+  { id: 'clean', points: 20, reason: 'Clean work, barely any corrections', reached: m => m.strokes.count >= 10 && m.confidence.redraw_rate <= 0.1 },
+  { id: 'toolbox', points: 15, reason: 'Using the whole toolbox', reached: m => Object.keys(m.tools.usage).length >= 3 },
+  { id: 'detail', points: 30, reason: 'Piling on the detail', reached: m => m.strokes.count >= 20 },
+  { id: 'clarity', points: 40, reason: 'Readable from across the room', reached: m => m.clarity.score >= 0.7 }
+];
+
+const TIPS: TipRule[] = [
+  { id: 'frozen', tip: 'Put down any line and build from it.', applies: m => m.confidence.hesitation_seconds >= 5 },
+  { id: 'undo', tip: 'Let rough lines stay; fix them with the next stroke.', applies: m => m.strokes.count >= 4 && m.confidence.redraw_rate >= 0.5 },
+  { id: 'small', tip: 'Go bigger and use more of the canvas.', applies: (m, remaining) => remaining < 0.5 && m.coverage.ratio < 0.08 }
+];
+
+const TIME_CALLS: [number, string][] = [
+  [0.3, 'Thirty percent of the clock left!'],
+  [0.15, 'Final stretch, make it count!'],
+  [0.05, 'Seconds left, pens up soon!']
+];
+
+const TOOL_CALLS: Record<string, string> = {
+  eraser: 'Out comes the eraser. Second thoughts?',
+  fill: 'Went for the bucket tool!',
+  line: 'Ruler-straight. Very architectural.',
+  rect: 'Boxes! Bold geometric choice.',
+  ellipse: 'A perfect ellipse, show-off.',
+  eyedropper: 'Sampling colors like a pro.'
+};
+
+const PANIC_CALLS = ['Whoa, the pen is flying now!', 'Panic mode engaged!', 'Speed drawing, the clock is winning!'];
+
+/** Deterministic, offline judge: scores and comments from the metrics alone and ignores frames. */
+export function createLocalJudge(options: LocalJudgeOptions = {}): Judge {
+  return {
+    start: async (config: JudgeConfig, events: JudgeEvents): Promise<JudgeSession> => {
+      if (config.gameMode === GameMode.GUESS) throw new Error('The Local judge can\'t see drawings, so it can\'t guess them. Pick the Gemini judge for GUESS.');
+      const awarded = new Set<string>();
+      const tipped = new Set<string>();
+      const totals: Record<string, number> = {};
+      const lastTools: Record<string, string | null> = {};
+      let lastRemaining = 1;
+      let leader: string | null = null;
+      let commentsMade = 0;
+      let closed = false;
+
+      const synth = options.speak && typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+      const name = (id: string) => config.gameMode === GameMode.SOLO ? 'You' : config.players.find(p => p.id === id)?.name ?? 'Someone';
+
+      const say = (text: string) => {
+        commentsMade++;
+        if (synth) synth.speak(new SpeechSynthesisUtterance(text));
+        events.onCommentary({ text });
+        events.onTranscript({ type: 'model', text }, true);
+      };
+
+      const finalCall = (state: JudgeState) => {
+        const ids = Object.keys(state.players);
+        if (ids.length < 2) {
+          const m = state.players[ids[0]];
+          return m ? `Time! ${m.strokes.count} strokes and ${totals[ids[0]] ?? 0} points.` : 'Time!';
+        }
+        const ranked = [...ids].sort((a, b) => (totals[b] ?? 0) - (totals[a] ?? 0));
+        const margin = (totals[ranked[0]] ?? 0) - (totals[ranked[1]] ?? 0);
+        return margin === 0 ? 'Time! Dead heat, what a battle.' : `Time! ${name(ranked[0])} takes it by ${margin}.`;
+      };
+
+      const pushMetrics = (state: JudgeState) => {
+        if (closed) return;
+        if (state.phase === 'end') {
+          say(finalCall(state));
+          const ranked = Object.keys(state.players).sort((a, b) => (totals[b] ?? 0) - (totals[a] ?? 0));
+          // Only a clear leader is named; the local judge has no eye for the drawings themselves
+          if (config.awardsPoints !== false && ranked.length > 1 && (totals[ranked[0]] ?? 0) > (totals[ranked[1]] ?? 0)) {
+            events.onVerdict({ playerId: ranked[0], reason: `Most milestones reached, ${totals[ranked[0]]} points.` });
+          }
+          return;
+        }
+
+        const remaining = state.time.remaining_pct;
+        const ids = Object.keys(state.players);
+        const reasons: string[] = [];
+
+        ids.forEach(id => {
+          const m = state.players[id];
+          for (const milestone of MILESTONES) {
+            const key = `${id}:${milestone.id}`;
+            if (awarded.has(key) || !milestone.reached(m)) continue;
+            awarded.add(key);
+            totals[id] = (totals[id] ?? 0) + milestone.points;
+            if (config.awardsPoints !== false) events.onAward({ playerId: id, points: milestone.points, reason: milestone.reason });
+            reasons.push(milestone.reason);
+          }
+          for (const rule of TIPS) {
+            const key = `${id}:${rule.id}`;
+            if (tipped.has(key) || !rule.applies(m, remaining)) continue;
+            tipped.add(key);
+            events.onTip({ playerId: id, tip: rule.tip });
+          }
+        });
+
+        // At most one comment per update, picked by priority
+        const timeCall = TIME_CALLS.find(([pct]) => lastRemaining > pct && remaining <= pct);
+        lastRemaining = remaining;
+        const panicking = ids.find(id => state.players[id].efficiency.panic_detected);
+        const toolChange = ids.find(id => {
+          const tool = state.players[id].tools.last_used;
+          const changed = tool !== lastTools[id] && !!tool && tool !== 'brush';
+          lastTools[id] = tool;
+          return changed;
+        });
+        let newLeader: string | null = null;
+        if (ids.length > 1) {
+          const ranked = [...ids].sort((a, b) => (totals[b] ?? 0) - (totals[a] ?? 0));
+          if ((totals[ranked[0]] ?? 0) > (totals[ranked[1]] ?? 0) && ranked[0] !== leader) newLeader = ranked[0];
+          if (newLeader) leader = newLeader;
+        }
+
+        let comment: string | null = null;
+        if (timeCall) comment = timeCall[1];
+        else if (state.commentary.cooldown_active) comment = null;
+        else if (panicking) comment = PANIC_CALLS[commentsMade % PANIC_CALLS.length];
+        else if (toolChange) comment = TOOL_CALLS[state.players[toolChange].tools.last_used!] ?? null;
+        else if (newLeader) comment = `${name(newLeader)} takes the lead!`;
+        else if (reasons.length) comment = `${reasons[0]}!`;
+        if (comment) say(comment);
+      };
+
+      return {
+        pushFrame: () => {},
+        pushMetrics,
+        close: () => {
+          closed = true;
+          synth?.cancel();
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,69 @@
+import { Difficulty, DrawingPrompt, MatchSettings, PromptRule, ScoreTable } from '../types';
+import { drawPrompt, filterPrompts, loadLibrary } from './promptLibrary';
+
+// The host's last match setup is remembered, like the prompt library
+
+const SETTINGS_KEY = 'sketch-master-match-settings';
+
+export const ROUND_SECONDS_OPTIONS = [30, 45, 60, 90, 120, 180];
+export const MAX_ROUNDS = 10;
+
+export const PROMPT_RULES: { rule: PromptRule; label: string; description: string }[] = [
+  { rule: 'fixed', label: 'Fixed', description: 'Every round uses the prompt you pick.' },
+  { rule: 'random', label: 'Random', description: 'Each round draws a prompt from the whole library.' },
+  { rule: 'difficulty', label: 'By Difficulty', description: 'Each round draws a prompt of the chosen difficulty.' }
+];
+
+export const DIFFICULTY_MULTIPLIERS: Record<Difficulty, number> = { Easy: 1, Medium: 2, Hard: 3 };
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  roundSeconds: 60,
+  rounds: 1,
+  promptRule: 'fixed',
+  difficulty: 'Easy',
+  difficultyBonus: false
+};
+
+export function loadMatchSettings(): MatchSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    return isMatchSettings(stored) ? stored : DEFAULT_MATCH_SETTINGS;
+  } catch (e) {
+    return DEFAULT_MATCH_SETTINGS;
+  }
+}
+
+export function saveMatchSettings(settings: MatchSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export const isMatchSettings = (s: any): s is MatchSettings =>
+  !!s && typeof s === 'object' &&
+  ROUND_SECONDS_OPTIONS.includes(s.roundSeconds) &&
+  Number.isInteger(s.rounds) && s.rounds >= 1 && s.rounds <= MAX_ROUNDS &&
+  PROMPT_RULES.some(r => r.rule === s.promptRule) &&
+  DIFFICULTY_MULTIPLIERS[s.difficulty as Difficulty] !== undefined &&
+  typeof s.difficultyBonus === 'boolean';
+
+/** The prompt for the next round; `selected` is kept for the fixed rule, or when the library has nothing to draw. */
+export function pickRoundPrompt(settings: MatchSettings, selected: DrawingPrompt): DrawingPrompt {
+  if (settings.promptRule === 'fixed') return selected;
+  const prompts = loadLibrary().flatMap(p => p.prompts);
+  const pool = settings.promptRule === 'difficulty' ? filterPrompts(prompts, { difficulty: settings.difficulty }) : prompts;
+  return drawPrompt(pool, { noRepeat: true }) ?? selected;
+}
+
+export function awardedPoints(points: number, prompt: DrawingPrompt, settings: MatchSettings): number {
+  return settings.difficultyBonus ? points * DIFFICULTY_MULTIPLIERS[prompt.difficulty] : points;
+}
+
+/** Points each entry scored this round. */
+export function roundGains(base: ScoreTable, scores: ScoreTable): ScoreTable {
+  return Object.fromEntries(Object.entries(scores).map(([id, score]) => [id, score - (base[id] ?? 0)]));
+}
+
+/** Every id sharing the top score; empty when nobody scored. */
+export function matchWinners(scores: ScoreTable): string[] {
+  const top = Math.max(0, ...Object.values(scores));
+  return top > 0 ? Object.keys(scores).filter(id => scores[id] === top) : [];
+}
@@ -0,0 +1,140 @@
+import { Difficulty, DrawingPrompt, GameMode, Profile, StatBucket } from '../types';
+import { PLAYER_COLORS } from '../constants';
+import { newId } from './promptLibrary';
+
+// Profiles and their lifetime stats live in localStorage, along with who sits in each local seat
+
+const PROFILES_KEY = 'sketch-master-profiles';
+const SEATS_KEY = 'sketch-master-seat-profiles';
+
+/** Profile ids for player 1 and the BATTLE rival; player 1 is also the local player in rooms. */
+export type SeatProfiles = [string | null, string | null];
+
+export interface StatFilter {
+  mode?: GameMode | null;
+  difficulty?: Difficulty | null;
+}
+
+export interface ProfileSummary {
+  rounds: number;
+  wins: number;
+  averageScore: number;
+  bestScore: number;
+  measured: number; // rounds behind the confidence and efficiency averages
+  confidence: number;
+  efficiency: number;
+}
+
+export interface RoundResult {
+  mode: GameMode;
+  prompt: DrawingPrompt;
+  score: number;
+  won: boolean;
+  confidence?: number; // from the final metrics, when the round had any
+  efficiency?: number;
+}
+
+const emptyBucket = (): StatBucket => ({ rounds: 0, wins: 0, points: 0, measured: 0, confidence: 0, efficiency: 0 });
+
+const bucketKey = (mode: GameMode, difficulty: Difficulty) => `${mode}:${difficulty}`;
+
+export function loadProfiles(): Profile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isProfile) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: Profile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadSeats(): SeatProfiles {
+  try {
+    const seats = JSON.parse(localStorage.getItem(SEATS_KEY) ?? 'null');
+    return Array.isArray(seats) && seats.length === 2 ? seats as SeatProfiles : [null, null];
+  } catch (e) {
+    return [null, null];
+  }
+}
+
+export function saveSeats(seats: SeatProfiles) {
+  localStorage.setItem(SEATS_KEY, JSON.stringify(seats));
+}
+
+/** The first seat color no other profile uses yet. */
+export const nextColor = (profiles: Profile[]) => PLAYER_COLORS.find(c => !profiles.some(p => p.color === c)) ?? PLAYER_COLORS[0];
+
+export function createProfile(profiles: Profile[], name: string, color: string): Profile[] {
+  return [...profiles, { id: newId('profile'), name: name.trim() || 'Player', color, stats: {}, best: {} }];
+}
+
+export function updateProfile(profiles: Profile[], id: string, patch: Partial<Pick<Profile, 'name' | 'color'>>): Profile[] {
+  return profiles.map(p => p.id === id ? { ...p, ...patch, name: (patch.name ?? p.name).trim() || p.name } : p);
+}
+
+export function deleteProfile(profiles: Profile[], id: string): Profile[] {
+  return profiles.filter(p => p.id !== id);
+}
+
+export function recordRound(profiles: Profile[], id: string, result: RoundResult): Profile[] {
+  return profiles.map(p => {
+    if (p.id !== id) return p;
+    const key = bucketKey(result.mode, result.prompt.difficulty);
+    const bucket = p.stats[key] ?? emptyBucket();
+    // Scores aren't comparable across modes (GUESS scores speed), so bests are kept per mode
+    const bestKey = `${result.mode}:${result.prompt.id}`;
+    const best = p.best[bestKey];
+    const measured = result.confidence !== undefined && result.efficiency !== undefined;
+    return {
+      ...p,
+      stats: {
+        ...p.stats,
+        [key]: {
+          rounds: bucket.rounds + 1,
+          wins: bucket.wins + (result.won ? 1 : 0),
+          points: bucket.points + result.score,
+          measured: bucket.measured + (measured ? 1 : 0),
+          confidence: bucket.confidence + (measured ? result.confidence : 0),
+          efficiency: bucket.efficiency + (measured ? result.efficiency : 0)
+        }
+      },
+      best: !best || result.score > best.score
+        ? { ...p.best, [bestKey]: { mode: result.mode, label: result.prompt.label, difficulty: result.prompt.difficulty, score: result.score } }
+        : p.best
+    };
+  });
+}
+
+export function summarize(profile: Profile, { mode, difficulty }: StatFilter = {}): ProfileSummary {
+  const total = emptyBucket();
+  Object.entries(profile.stats).forEach(([key, bucket]) => {
+    const [m, d] = key.split(':');
+    if ((mode && m !== mode) || (difficulty && d !== difficulty)) return;
+    total.rounds += bucket.rounds; total.wins += bucket.wins; total.points += bucket.points;
+    total.measured += bucket.measured; total.confidence += bucket.confidence; total.efficiency += bucket.efficiency;
+  });
+  const bests = Object.values(profile.best).filter(b => (!mode || b.mode === mode) && (!difficulty || b.difficulty === difficulty)).map(b => b.score);
+  return {
+    rounds: total.rounds,
+    wins: total.wins,
+    averageScore: total.points / (total.rounds || 1),
+    bestScore: Math.max(0, ...bests),
+    measured: total.measured,
+    confidence: total.confidence / (total.measured || 1),
+    efficiency: total.efficiency / (total.measured || 1)
+  };
+}
+
+/** Best round score at each difficulty the profile has played, in one mode or all of them. */
+export function bestByDifficulty(profile: Profile, mode?: GameMode | null): Partial<Record<Difficulty, number>> {
+  const bests: Partial<Record<Difficulty, number>> = {};
+  Object.values(profile.best).filter(b => !mode || b.mode === mode).forEach(b => { bests[b.difficulty] = Math.max(bests[b.difficulty] ?? 0, b.score); });
+  return bests;
+}
+
+const isProfile = (p: any): p is Profile =>
+  p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.color === 'string' &&
+  p.stats && typeof p.stats === 'object' && p.best && typeof p.best === 'object';
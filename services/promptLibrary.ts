@@ -0,0 +1,133 @@
+import { PROMPTS } from '../constants';
+import { Difficulty, DrawingPrompt, PromptPack } from '../types';
+
+// Custom packs and recently drawn prompts live in localStorage; the classic pack ships with the game
+
+const LIBRARY_KEY = 'sketch-master-prompt-packs';
+const HISTORY_KEY = 'sketch-master-prompt-history';
+const MAX_HISTORY = 200;
+const PACK_FORMAT = 'sketch-master-prompt-pack';
+
+export const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export const CLASSIC_PACK: PromptPack = { id: 'classic', name: 'Classic', prompts: PROMPTS, builtIn: true };
+
+export const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`;
+
+/** The classic pack followed by the user's own packs. */
+export function loadLibrary(): PromptPack[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? '[]');
+    return [CLASSIC_PACK, ...(Array.isArray(stored) ? stored.filter(isPack) : [])];
+  } catch (e) {
+    return [CLASSIC_PACK];
+  }
+}
+
+export function saveLibrary(packs: PromptPack[]) {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(packs.filter(p => !p.builtIn)));
+}
+
+export function createPack(packs: PromptPack[], name: string): PromptPack[] {
+  return [...packs, { id: newId('pack'), name: name.trim() || 'New Pack', prompts: [] }];
+}
+
+export function renamePack(packs: PromptPack[], packId: string, name: string): PromptPack[] {
+  return packs.map(p => p.id === packId && !p.builtIn ? { ...p, name: name.trim() || p.name } : p);
+}
+
+export function deletePack(packs: PromptPack[], packId: string): PromptPack[] {
+  return packs.filter(p => p.id !== packId || p.builtIn);
+}
+
+/** Adds the prompt to the pack, or replaces the one with the same id. */
+export function savePrompt(packs: PromptPack[], packId: string, prompt: DrawingPrompt): PromptPack[] {
+  return packs.map(p => {
+    if (p.id !== packId || p.builtIn) return p;
+    const exists = p.prompts.some(q => q.id === prompt.id);
+    return { ...p, prompts: exists ? p.prompts.map(q => q.id === prompt.id ? prompt : q) : [...p.prompts, prompt] };
+  });
+}
+
+export function deletePrompt(packs: PromptPack[], packId: string, promptId: string): PromptPack[] {
+  return packs.map(p => p.id === packId && !p.builtIn ? { ...p, prompts: p.prompts.filter(q => q.id !== promptId) } : p);
+}
+
+export function exportPack(pack: PromptPack): string {
+  const prompts = pack.prompts.map(({ label, difficulty, category }) => ({ label, difficulty, ...(category ? { category } : {}) }));
+  return JSON.stringify({ format: PACK_FORMAT, version: 1, name: pack.name, prompts }, null, 2);
+}
+
+/** Reads a pack written by exportPack; prompts get fresh ids so a pack can be imported twice. */
+export function parsePack(json: string): PromptPack {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Not a JSON file');
+  }
+  if (data?.format !== PACK_FORMAT || !Array.isArray(data.prompts)) throw new Error('Not a prompt pack');
+  const prompts = data.prompts.filter(isPromptData).map((p: DrawingPrompt) => ({
+    id: newId('prompt'),
+    label: p.label.trim(),
+    difficulty: p.difficulty,
+    ...(typeof p.category === 'string' && p.category.trim() ? { category: p.category.trim() } : {})
+  }));
+  if (!prompts.length) throw new Error('The pack has no valid prompts');
+  return { id: newId('pack'), name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported Pack', prompts };
+}
+
+export function categoriesOf(prompts: DrawingPrompt[]): string[] {
+  return [...new Set(prompts.map(p => p.category).filter((c): c is string => !!c))].sort();
+}
+
+export interface PromptFilter {
+  query?: string;
+  difficulty?: Difficulty | null;
+  category?: string | null;
+}
+
+export function filterPrompts(prompts: DrawingPrompt[], { query = '', difficulty, category }: PromptFilter): DrawingPrompt[] {
+  const q = query.trim().toLowerCase();
+  return prompts.filter(p =>
+    (!difficulty || p.difficulty === difficulty) &&
+    (!category || p.category === category) &&
+    (!q || p.label.toLowerCase().includes(q) || !!p.category?.toLowerCase().includes(q)));
+}
+
+function loadHistory(): string[] {
+  try {
+    const history = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    return Array.isArray(history) ? history : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/** Marks a prompt as played, for `drawPrompt`'s no-repeat option. */
+export function rememberPrompt(promptId: string) {
+  const history = [...loadHistory().filter(id => id !== promptId), promptId].slice(-MAX_HISTORY);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+}
+
+/**
+ * Picks a random prompt. With `noRepeat`, prompts played in earlier rounds are skipped
+ * until every candidate has been played; then the least recently played half comes back.
+ */
+export function drawPrompt(prompts: DrawingPrompt[], { noRepeat = false }: { noRepeat?: boolean } = {}): DrawingPrompt | null {
+  if (!prompts.length) return null;
+  let pool = prompts;
+  if (noRepeat) {
+    const history = loadHistory();
+    const fresh = prompts.filter(p => !history.includes(p.id));
+    pool = fresh.length ? fresh : [...prompts].sort((a, b) => history.indexOf(a.id) - history.indexOf(b.id)).slice(0, Math.ceil(prompts.length / 2));
+  }
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+const isPromptData = (p: any) =>
+  p && typeof p.label === 'string' && p.label.trim().length > 0 && DIFFICULTIES.includes(p.difficulty);
+
+const isPack = (p: any): p is PromptPack =>
+  p && typeof p.id === 'string' && typeof p.name === 'string' && Array.isArray(p.prompts) &&
+  p.prompts.every((q: any) => typeof q.id === 'string' && isPromptData(q));
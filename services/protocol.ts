@@ -0,0 +1,98 @@
+import { DrawingPrompt, GameMode, GameState, Keyframe, MultiplayerMessage, Player, StrokeOp } from '../types';
+import { isStrokeHead } from './drawingExport';
+import { DIFFICULTIES } from './promptLibrary';
+import { MAX_ROUNDS, isMatchSettings } from './match';
+
+export const PROTOCOL_VERSION = 9;
+export const HEARTBEAT_INTERVAL_MS = 2000;
+export const PEER_TIMEOUT_MS = 6000; // three missed heartbeats
+export const MAX_PLAYERS = 8;
+export const MAX_SPECTATORS = 16;
+export const MAX_NAME_LENGTH = 20;
+export const RESULTS_GRACE_MS = 5000; // guests end the round themselves if the host's GAME_OVER never arrives
+
+/** A message as the caller writes it; the envelope fields are filled in by createMessage. */
+export type MessageBody = MultiplayerMessage extends infer M ? M extends MultiplayerMessage ? Omit<M, 'v' | 'senderId'> : never : never;
+
+export const createMessage = (body: MessageBody, senderId: string): MultiplayerMessage =>
+  ({ ...body, v: PROTOCOL_VERSION, senderId } as MultiplayerMessage);
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const GAME_STATES = Object.values(GameState) as string[];
+const ROOM_MODES: string[] = [GameMode.ONLINE, GameMode.COOP];
+
+const isPrompt = (p: unknown): p is DrawingPrompt =>
+  isObject(p) && typeof p.id === 'string' && typeof p.label === 'string' && DIFFICULTIES.includes(p.difficulty) &&
+  (p.category === undefined || typeof p.category === 'string');
+
+// Only the fields the game reads are checked; the judge gets the block as-is
+const isPlayerMetrics = (m: unknown) =>
+  isObject(m) && isObject(m.confidence) && isNumber(m.confidence.score) && isObject(m.efficiency) && isNumber(m.efficiency.score) &&
+  isObject(m.clarity) && isNumber(m.clarity.score) && isObject(m.strokes) && isNumber(m.strokes.count) &&
+  isObject(m.pauses) && isObject(m.coverage) && isNumber(m.coverage.ratio) && isObject(m.tools);
+
+const isName = (n: unknown) => typeof n === 'string' && n.trim().length > 0 && n.length <= MAX_NAME_LENGTH;
+
+const isRole = (r: unknown) => r === undefined || r === 'player' || r === 'spectator';
+
+const isPlayer = (p: unknown): p is Player =>
+  isObject(p) && typeof p.id === 'string' && isName(p.name) && isNumber(p.score) && typeof p.isReady === 'boolean' &&
+  (p.isHost === undefined || typeof p.isHost === 'boolean') && isRole(p.role);
+
+const isPointBatch = (b: Record<string, any>) =>
+  Array.isArray(b.pts) && b.pts.length % 2 === 0 && b.pts.every(isNumber) &&
+  (b.pr === undefined || (Array.isArray(b.pr) && b.pr.length * 2 === b.pts.length && b.pr.every(isNumber)));
+
+const isLayer = (l: unknown) =>
+  isObject(l) && typeof l.id === 'string' && typeof l.name === 'string' && typeof l.visible === 'boolean' && isNumber(l.opacity) && typeof l.locked === 'boolean';
+
+const isIdList = (ids: unknown) => Array.isArray(ids) && ids.every(id => typeof id === 'string');
+
+
+/** Also checks keyframes saved for a rejoin (services/roomSession.ts). */
+export const isKeyframe = (k: unknown): k is Keyframe =>
+  isObject(k) && Array.isArray(k.strokes) && k.strokes.every(s => isStrokeHead(s) && isPointBatch(s)) && Array.isArray(k.layers) && k.layers.every(isLayer);
+
+const isStrokeOp = (o: unknown): o is StrokeOp => {
+  if (!isObject(o)) return false;
+  switch (o.op) {
+    case 'begin': return isStrokeHead(o.stroke) && isPointBatch(o);
+    case 'points': return typeof o.id === 'string' && isPointBatch(o);
+    case 'end': return typeof o.id === 'string';
+    case 'cursor': return o.at === null || (Array.isArray(o.at) && o.at.length === 2 && o.at.every(isNumber));
+    case 'state': return isIdList(o.visible) && Array.isArray(o.layers) && o.layers.every(isLayer) && (o.order === undefined || isIdList(o.order));
+    default: return false;
+  }
+};
+
+const isScoreTable = (t: unknown) => isObject(t) && Object.values(t).every(isNumber);
+
+const isRound = (r: unknown) => Number.isInteger(r) && (r as number) >= 1 && (r as number) <= MAX_ROUNDS;
+
+const PAYLOAD_CHECKS: Record<MultiplayerMessage['type'], (p: Record<string, any>) => boolean> = {
+  PLAYER_JOINED: p => isName(p.name) && typeof p.isHost === 'boolean' && typeof p.isReady === 'boolean' && (p.rejoining === undefined || typeof p.rejoining === 'boolean') && isRole(p.role),
+  PLAYER_UPDATE: p => isName(p.name) && typeof p.isReady === 'boolean',
+  PLAYER_LEFT: () => true,
+  ROSTER: p => Array.isArray(p.players) && p.players.length <= MAX_PLAYERS + MAX_SPECTATORS && p.players.every(isPlayer) && isPrompt(p.prompt) && ROOM_MODES.includes(p.mode) && isMatchSettings(p.settings),
+  JOIN_REJECTED: p => typeof p.to === 'string' && typeof p.reason === 'string',
+  ROOM_STATE: p => GAME_STATES.includes(p.phase) && isPrompt(p.prompt) && isNumber(p.endsAt) && isNumber(p.duration) && isRound(p.round) && isScoreTable(p.base) && isScoreTable(p.scores),
+  GAME_START: p => isPrompt(p.prompt) && isNumber(p.endsAt) && isNumber(p.duration) && isRound(p.round) && isScoreTable(p.base),
+  STROKE_DELTA: p => Array.isArray(p.ops) && p.ops.every(isStrokeOp),
+  CANVAS_KEYFRAME: p => isKeyframe(p.keyframe),
+  SYNC_METRICS: p => isPlayerMetrics(p.metrics),
+  SCORE_UPDATE: p => isScoreTable(p.scores) &&
+    (p.award === undefined || (isObject(p.award) && typeof p.award.playerId === 'string' && isNumber(p.award.points) && typeof p.award.reason === 'string')),
+  GAME_OVER: p => isScoreTable(p.scores),
+  JUDGE_VERDICT: p => typeof p.playerId === 'string' && typeof p.reason === 'string',
+  CLOCK_PING: p => isNumber(p.sentAt),
+  CLOCK_PONG: p => typeof p.to === 'string' && isNumber(p.sentAt) && isNumber(p.hostTime),
+  HEARTBEAT: p => GAME_STATES.includes(p.phase)
+};
+
+/** Returns the message if it is well-formed and speaks our protocol version, otherwise null. */
+export function parseMessage(data: unknown): MultiplayerMessage | null {
+  if (!isObject(data) || data.v !== PROTOCOL_VERSION || typeof data.senderId !== 'string' || !isObject(data.payload)) return null;
+  const check = PAYLOAD_CHECKS[data.type as MultiplayerMessage['type']];
+  return check && check(data.payload) ? data as MultiplayerMessage : null;
+}
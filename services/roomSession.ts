@@ -0,0 +1,65 @@
+import { GameMode, Keyframe } from '../types';
+import { isKeyframe } from './protocol';
+import { TransportKind } from './roomTransport';
+
+// Per-tab storage so a refresh can rejoin the same room as the same player
+
+const SESSION_ID_KEY = 'sketch-master-session-id';
+const ROOM_KEY = 'sketch-master-room';
+const NAME_KEY = 'sketch-master-name';
+
+export interface SavedRoom {
+  code: string;
+  isHost: boolean;
+  transport: TransportKind;
+  relayUrl: string;
+  spectator?: boolean;
+  mode?: GameMode; // ONLINE when absent
+  /** The local drawing (CanvasHandle.exportKeyframe) while a round is in progress. */
+  drawing?: Keyframe;
+}
+
+export function getSessionId(): string {
+  let id = sessionStorage.getItem(SESSION_ID_KEY);
+  if (!id) {
+    id = Math.random().toString(36).substring(7);
+    sessionStorage.setItem(SESSION_ID_KEY, id);
+  }
+  return id;
+}
+
+/** The display name shown to other players; remembered across visits. */
+export function getDisplayName(): string {
+  return localStorage.getItem(NAME_KEY) ?? '';
+}
+
+export function setDisplayName(name: string) {
+  localStorage.setItem(NAME_KEY, name);
+}
+
+export function loadRoom(): SavedRoom | null {
+  try {
+    const room = JSON.parse(sessionStorage.getItem(ROOM_KEY) ?? 'null');
+    if (!room || typeof room.code !== 'string' || typeof room.isHost !== 'boolean') return null;
+    // A damaged drawing is dropped; the rejoin still goes ahead with a blank canvas
+    if (room.drawing !== undefined && !isKeyframe(room.drawing)) delete room.drawing;
+    return room;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function saveRoom(room: SavedRoom) {
+  try {
+    sessionStorage.setItem(ROOM_KEY, JSON.stringify(room));
+  } catch (e) {} // quota exceeded: rejoin just starts from a blank canvas
+}
+
+export function updateRoom(patch: Partial<SavedRoom>) {
+  const room = loadRoom();
+  if (room) saveRoom({ ...room, ...patch });
+}
+
+export function clearRoom() {
+  sessionStorage.removeItem(ROOM_KEY);
+}
@@ -0,0 +1,97 @@
+import { MultiplayerMessage, RelayClientMessage, RelayServerMessage } from '../types';
+import { parseMessage } from './protocol';
+
+/** A room connection that delivers each sent message to every other member of the room. */
+export interface RoomTransport {
+  send: (message: MultiplayerMessage) => void;
+  close: () => void;
+}
+
+export interface TransportEvents {
+  /** Only well-formed messages of the current protocol version are delivered. */
+  onMessage: (message: MultiplayerMessage) => void;
+  /** The connection dropped after it was established. Not called for `close()`. */
+  onDisconnect?: (reason: string) => void;
+}
+
+export type TransportKind = 'broadcast' | 'websocket';
+
+// MAX_MESSAGE_BYTES in server/relay.ts, less a margin for non-ASCII names
+const RELAY_MAX_MESSAGE_CHARS = 1.5 * 1024 * 1024;
+
+export const TRANSPORT_KINDS: { kind: TransportKind; label: string; description: string }[] = [
+  { kind: 'broadcast', label: 'This Browser', description: 'Tabs in the same browser. Handy for testing.' },
+  { kind: 'websocket', label: 'LAN Relay', description: 'Other machines through the relay server (npm run relay).' }
+];
+
+const RELAY_PORT = 8787;
+const CONNECT_TIMEOUT_MS = 5000;
+
+export const defaultRelayUrl = () => process.env.RELAY_URL || `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+/** Same-browser transport: only reaches other tabs of this origin. */
+export function openBroadcastTransport(code: string, events: TransportEvents): RoomTransport {
+  const channel = new BroadcastChannel(`sketch-master-${code}`);
+  channel.onmessage = (e) => {
+    const message = parseMessage(e.data);
+    if (message) events.onMessage(message);
+  };
+  return {
+    send: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  };
+}
+
+/** Connects to the relay server and creates or joins the room; rejects if the relay refuses. */
+export function openWebSocketTransport(url: string, code: string, create: boolean, events: TransportEvents): Promise<RoomTransport> {
+  return new Promise((resolve, reject) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      reject(new Error(`Invalid relay address: ${url}`));
+      return;
+    }
+    let joined = false;
+    let closed = false;
+    const timeout = window.setTimeout(() => { socket.close(); reject(new Error(`Relay at ${url} did not respond`)); }, CONNECT_TIMEOUT_MS);
+    const relay = (message: RelayClientMessage) => {
+      const data = JSON.stringify(message);
+      // The relay closes the socket of anyone sending more; the drawing still arrives as stroke deltas
+      if (data.length <= RELAY_MAX_MESSAGE_CHARS) socket.send(data);
+    };
+
+    const transport: RoomTransport = {
+      send: (message) => { if (socket.readyState === WebSocket.OPEN) relay({ action: 'send', data: message }); },
+      close: () => { closed = true; socket.close(); }
+    };
+
+    socket.onopen = () => relay({ action: create ? 'create' : 'join', room: code });
+    socket.onmessage = (e) => {
+      let msg: RelayServerMessage;
+      try { msg = JSON.parse(e.data); } catch (err) { return; }
+      if (msg.event === 'joined' && !joined) {
+        joined = true;
+        clearTimeout(timeout);
+        resolve(transport);
+      } else if (msg.event === 'message') {
+        const message = parseMessage(msg.data);
+        if (message) events.onMessage(message);
+      } else if (msg.event === 'error' && !joined) {
+        clearTimeout(timeout);
+        closed = true;
+        socket.close();
+        reject(new Error(msg.message));
+      }
+    };
+    socket.onclose = () => {
+      clearTimeout(timeout);
+      if (!joined) reject(new Error(`Could not reach the relay at ${url}`));
+      else if (!closed) events.onDisconnect?.('Lost connection to the relay');
+    };
+  });
+}
+
+export function openTransport(kind: TransportKind, code: string, create: boolean, events: TransportEvents, relayUrl = defaultRelayUrl()): Promise<RoomTransport> {
+  return kind === 'websocket' ? openWebSocketTransport(relayUrl, code, create, events) : Promise.resolve(openBroadcastTransport(code, events));
+}
@@ -0,0 +1,52 @@
+import { Stabilizer, StrokePoint } from '../types';
+
+export interface StrokeStabilizer {
+  /** Feeds a raw pointer sample and returns the point to draw, or null while the brush holds still. */
+  push: (point: StrokePoint) => StrokePoint | null;
+}
+
+const MAX_LAZY_RADIUS = 40; // px at strength 100
+const MAX_AVERAGE_WINDOW = 12; // samples at strength 100
+
+/**
+ * Creates per-stroke stabilizer state. `strength` runs 0–100.
+ * - lazy: the brush trails the pointer on a string and only moves once the string is taut.
+ * - average: each output is the mean of the last N raw samples.
+ */
+export function createStabilizer(mode: Stabilizer, strength: number): StrokeStabilizer {
+  const amount = Math.min(100, Math.max(0, strength)) / 100;
+
+  if (mode === 'lazy' && amount > 0) {
+    const radius = amount * MAX_LAZY_RADIUS;
+    let brush: StrokePoint | null = null;
+    return {
+      push: (point) => {
+        if (!brush) return (brush = point);
+        const dist = Math.hypot(point.x - brush.x, point.y - brush.y);
+        if (dist <= radius) return null;
+        const pull = (dist - radius) / dist;
+        brush = {
+          ...point,
+          x: brush.x + (point.x - brush.x) * pull,
+          y: brush.y + (point.y - brush.y) * pull
+        };
+        return brush;
+      }
+    };
+  }
+
+  if (mode === 'average' && amount > 0) {
+    const size = 1 + Math.round(amount * (MAX_AVERAGE_WINDOW - 1));
+    const window: StrokePoint[] = [];
+    return {
+      push: (point) => {
+        window.push(point);
+        if (window.length > size) window.shift();
+        const avg = (key: 'x' | 'y') => window.reduce((sum, p) => sum + p[key], 0) / window.length;
+        return { ...point, x: avg('x'), y: avg('y') };
+      }
+    };
+  }
+
+  return { push: (point) => point };
+}
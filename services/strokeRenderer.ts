@@ -0,0 +1,303 @@
+import { Layer, LineStyle, Smoothing, Stroke, StrokePoint } from '../types';
+
+export const CANVAS_BACKGROUND = '#1e293b';
+// Fixed logical drawing size: stroke coordinates, snapshots and exports never depend on the window
+export const DRAWING_WIDTH = 1280;
+export const DRAWING_HEIGHT = 800;
+export const DEFAULT_LAYER_ID = 'base';
+
+export function createLayer(id: string, name: string): Layer {
+  return { id, name, visible: true, opacity: 1, locked: false };
+}
+
+export function applyLineStyle(ctx: CanvasRenderingContext2D, style: LineStyle, width: number) {
+  ctx.setLineDash(dashPattern(style, width));
+}
+
+export function dashPattern(style: LineStyle, width: number): number[] {
+  if (style === 'dashed') return [width * 3, width * 2];
+  if (style === 'dotted') return [1, width * 2];
+  return [];
+}
+
+// Maps stylus pressure (0–1) onto a width multiplier; 0.5 draws at the nominal width
+export function pressureWidth(width: number, pressure: number) {
+  return width * (0.25 + Math.min(1, Math.max(0, pressure)) * 1.5);
+}
+
+/** Flood fill: marks pixels connected to (x, y) whose RGBA is within `tolerance` (0–100) of the seed. */
+export function computeFillMask(image: ImageData, x: number, y: number, tolerance: number): Uint8Array {
+  const { width, height, data } = image;
+  const mask = new Uint8Array(width * height);
+  const sx = Math.floor(x), sy = Math.floor(y);
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) return mask;
+
+  const seed = (sy * width + sx) * 4;
+  const limit = tolerance * 2.55;
+  const matches = (i: number) => {
+    const o = i * 4;
+    return Math.abs(data[o] - data[seed]) <= limit && Math.abs(data[o + 1] - data[seed + 1]) <= limit &&
+      Math.abs(data[o + 2] - data[seed + 2]) <= limit && Math.abs(data[o + 3] - data[seed + 3]) <= limit;
+  };
+
+  const stack = [sy * width + sx];
+  mask[stack[0]] = 1;
+  while (stack.length) {
+    const i = stack.pop()!;
+    const px = i % width;
+    const neighbours = [px > 0 ? i - 1 : -1, px < width - 1 ? i + 1 : -1, i - width, i + width];
+    for (const n of neighbours) {
+      if (n >= 0 && n < mask.length && !mask[n] && matches(n)) {
+        mask[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+
+  // Grow the region by one pixel so anti-aliased outlines don't leave a halo
+  const grown = mask.slice();
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const px = i % width;
+    if (px > 0) grown[i - 1] = 1;
+    if (px < width - 1) grown[i + 1] = 1;
+    if (i >= width) grown[i - width] = 1;
+    if (i + width < mask.length) grown[i + width] = 1;
+  }
+  return grown;
+}
+
+/** Paints a fill mask in `color` onto a new canvas the size of the mask. */
+export function maskToCanvas(mask: Uint8Array, width: number, height: number, color: string): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) image.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  return canvas;
+}
+
+/** Paints a fill mask onto a canvas cropped to the filled pixels; `x`/`y` place it in the mask's space. */
+function croppedFill(mask: Uint8Array, width: number, height: number, color: string): { x: number; y: number; canvas: HTMLCanvasElement } | null {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const px = i % width, py = (i - px) / width;
+    if (px < minX) minX = px;
+    if (px > maxX) maxX = px;
+    if (py < minY) minY = py;
+    maxY = py;
+  }
+  if (maxX < 0) return null;
+  const w = maxX - minX + 1, h = maxY - minY + 1;
+  const cropped = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) cropped.set(mask.subarray((minY + y) * width + minX, (minY + y) * width + minX + w), y * w);
+  return { x: minX, y: minY, canvas: maskToCanvas(cropped, w, h, color) };
+}
+
+// Flood fills read back and scan the whole layer, so each fill's result is kept for redraws
+// (undo, layer toggles, zoom) until the canvas size or the strokes under it change
+const FILL_CACHE_SIZE = 16;
+const fillCache = new Map<string, { key: string; fill: ReturnType<typeof croppedFill> }>();
+
+function fillRegion(ctx: CanvasRenderingContext2D, stroke: Stroke, below?: string) {
+  const { width, height } = ctx.canvas;
+  const transform = ctx.getTransform();
+  const key = below === undefined ? null : `${width}x${height}|${transform.a},${transform.d},${transform.e},${transform.f}|${stroke.color}|${below}`;
+  const cached = fillCache.get(stroke.id);
+  let fill = cached && cached.key === key ? cached.fill : undefined;
+  if (fill === undefined) {
+    // The seed is in drawing units while the pixel data is in backing-store pixels
+    const seed = transform.transformPoint(stroke.points[0]);
+    const mask = computeFillMask(ctx.getImageData(0, 0, width, height), seed.x, seed.y, stroke.tolerance ?? 0);
+    fill = croppedFill(mask, width, height, stroke.color);
+  }
+  if (key !== null) {
+    fillCache.delete(stroke.id); // re-inserted as the most recently used
+    fillCache.set(stroke.id, { key, fill });
+    if (fillCache.size > FILL_CACHE_SIZE) fillCache.delete(fillCache.keys().next().value);
+  }
+  if (!fill) return;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.drawImage(fill.canvas, fill.x, fill.y);
+  ctx.restore();
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, stroke: Stroke) {
+  const [start, end = start] = [stroke.points[0], stroke.points[stroke.points.length - 1]];
+  ctx.beginPath();
+  if (stroke.tool === 'line') {
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+  } else if (stroke.tool === 'rect') {
+    ctx.rect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+  } else {
+    ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+  }
+  ctx.stroke();
+}
+
+export interface CurveSegment {
+  from: StrokePoint;
+  cp1: { x: number; y: number };
+  cp2: { x: number; y: number };
+  to: StrokePoint;
+}
+
+const lerp = (a: { x: number; y: number }, b: { x: number; y: number }, t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+const midpoint = (a: StrokePoint, b: StrokePoint): StrokePoint => ({
+  ...lerp(a, b, 0.5), t: (a.t + b.t) / 2, p: a.p !== undefined && b.p !== undefined ? (a.p + b.p) / 2 : a.p
+});
+
+/** Fits a stroke's samples with cubic Bézier segments; straight lines are degenerate curves. */
+export function strokeSegments(points: StrokePoint[], smoothing: Smoothing = 'none'): CurveSegment[] {
+  const segments: CurveSegment[] = [];
+  if (points.length < 2) return segments;
+  const line = (from: StrokePoint, to: StrokePoint) => segments.push({ from, cp1: from, cp2: to, to });
+
+  if (smoothing === 'none' || points.length < 3) {
+    for (let i = 1; i < points.length; i++) line(points[i - 1], points[i]);
+  } else if (smoothing === 'quadratic') {
+    // Midpoint scheme: each sample becomes the control point between neighbouring midpoints
+    let prev = midpoint(points[0], points[1]);
+    line(points[0], prev);
+    for (let i = 1; i < points.length - 1; i++) {
+      const next = midpoint(points[i], points[i + 1]);
+      segments.push({ from: prev, cp1: lerp(prev, points[i], 2 / 3), cp2: lerp(next, points[i], 2 / 3), to: next });
+      prev = next;
+    }
+    line(prev, points[points.length - 1]);
+  } else {
+    // Uniform Catmull-Rom through every sample, converted to Bézier control points
+    for (let i = 0; i < points.length - 1; i++) {
+      const p0 = points[Math.max(0, i - 1)], p1 = points[i], p2 = points[i + 1], p3 = points[Math.min(points.length - 1, i + 2)];
+      segments.push({
+        from: p1,
+        cp1: { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+        cp2: { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+        to: p2
+      });
+    }
+  }
+  return segments;
+}
+
+/** `below` identifies the strokes already on this layer; when given, a fill may reuse its cached result. */
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke, below?: string) {
+  ctx.save();
+  // The eraser removes ink rather than painting over it, so transparent exports stay clean
+  ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+  paintStroke(ctx, stroke, below);
+  ctx.restore();
+}
+
+function paintStroke(ctx: CanvasRenderingContext2D, stroke: Stroke, below?: string) {
+  const { points } = stroke;
+  if (points.length === 0) return;
+
+  ctx.lineWidth = stroke.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = stroke.color;
+  applyLineStyle(ctx, stroke.style, stroke.width);
+
+  if (stroke.tool === 'fill') {
+    fillRegion(ctx, stroke, below);
+    return;
+  }
+  if (stroke.tool === 'line' || stroke.tool === 'rect' || stroke.tool === 'ellipse') {
+    drawShape(ctx, stroke);
+    return;
+  }
+
+  const segments = strokeSegments(points, stroke.smoothing);
+  if (points[0].p !== undefined && segments.length > 0) {
+    // Pressure strokes change width along the line, so each segment is stroked on its own,
+    // with the dash offset carried over so dashed/dotted patterns stay continuous
+    let travelled = 0;
+    for (const seg of segments) {
+      ctx.lineWidth = pressureWidth(stroke.width, ((seg.from.p ?? 0.5) + (seg.to.p ?? 0.5)) / 2);
+      ctx.lineDashOffset = travelled;
+      ctx.beginPath();
+      ctx.moveTo(seg.from.x, seg.from.y);
+      ctx.bezierCurveTo(seg.cp1.x, seg.cp1.y, seg.cp2.x, seg.cp2.y, seg.to.x, seg.to.y);
+      ctx.stroke();
+      travelled += Math.hypot(seg.to.x - seg.from.x, seg.to.y - seg.from.y);
+    }
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  if (points.length === 1) {
+    ctx.lineTo(points[0].x, points[0].y);
+  }
+  for (const seg of segments) {
+    ctx.bezierCurveTo(seg.cp1.x, seg.cp1.y, seg.cp2.x, seg.cp2.y, seg.to.x, seg.to.y);
+  }
+  ctx.stroke();
+}
+
+export function layerOf(stroke: Stroke): string {
+  return stroke.layerId ?? DEFAULT_LAYER_ID;
+}
+
+/** Redraws one layer's strokes onto its own transparent canvas, so erasing never reaches other layers. */
+export function renderLayer(canvas: HTMLCanvasElement, strokes: Stroke[], scale = 1) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  // Point counts are part of the key because replays draw strokes cut short
+  let below = '';
+  strokes.forEach(stroke => {
+    drawStroke(ctx, stroke, below);
+    below += `${stroke.id}:${stroke.points.length},`;
+  });
+}
+
+/** Flattens the visible layers (bottom first) over the background, in the context's current transform. */
+export function compositeLayers(ctx: CanvasRenderingContext2D, layers: Layer[], layerCanvases: Map<string, HTMLCanvasElement>, width: number, height: number, background: string | null = CANVAS_BACKGROUND) {
+  ctx.save();
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  for (const layer of layers) {
+    const layerCanvas = layerCanvases.get(layer.id);
+    if (!layer.visible || !layerCanvas) continue;
+    ctx.globalAlpha = layer.opacity;
+    ctx.drawImage(layerCanvas, 0, 0, width, height);
+  }
+  ctx.restore();
+}
+
+export function createLayerCanvas(width: number, height: number, scale = 1): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  return canvas;
+}
+
+export function renderStrokes(canvas: HTMLCanvasElement, strokes: Stroke[], background: string | null = CANVAS_BACKGROUND, layers: Layer[] = [createLayer(DEFAULT_LAYER_ID, 'Layer 1')]) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const layerCanvases = new Map<string, HTMLCanvasElement>();
+  for (const layer of layers) {
+    const layerCanvas = createLayerCanvas(canvas.width, canvas.height);
+    renderLayer(layerCanvas, strokes.filter(s => layerOf(s) === layer.id));
+    layerCanvases.set(layer.id, layerCanvas);
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  compositeLayers(ctx, layers, layerCanvases, canvas.width, canvas.height, background);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Stroke } from '../types';
+import { packKeyframe, placeStrokes, unpackKeyframe } from './strokeSync';
+
+const stroke = (id: string): Stroke => ({ id, color: '#000000', width: 4, style: 'solid', points: [{ x: 1.234, y: 5.678, t: 0 }] });
+const ids = (strokes: Stroke[]) => strokes.map(s => s.id);
+const mine = (s: Stroke) => s.id.startsWith('a');
+
+describe('placeStrokes', () => {
+  it('keeps strokes that stay and drops the rest', () => {
+    const list = ['a1', 'b1', 'a2', 'b2'].map(stroke);
+    expect(ids(placeStrokes(list, mine, [list[2]]))).toEqual(['b1', 'a2', 'b2']);
+  });
+
+  it('puts returning strokes back after the stroke that preceded them', () => {
+    const order = ['a1', 'b1', 'a2', 'b2', 'a3'];
+    const cleared = ['b1', 'b2', 'b3'].map(stroke);
+    const restored = placeStrokes(cleared, mine, ['a1', 'a2', 'a3'].map(stroke), order);
+    expect(ids(restored)).toEqual(['a1', 'b1', 'a2', 'b2', 'a3', 'b3']);
+  });
+
+  it('puts strokes the order does not know on top', () => {
+    const list = ['b1'].map(stroke);
+    expect(ids(placeStrokes(list, mine, ['a1', 'a9'].map(stroke), ['b1', 'a1']))).toEqual(['b1', 'a1', 'a9']);
+  });
+
+  it('uses the new stroke objects for strokes that stay', () => {
+    const next = stroke('a1');
+    expect(placeStrokes([stroke('a1')], mine, [next])[0]).toBe(next);
+  });
+});
+
+describe('keyframes', () => {
+  it('round-trips strokes with packed points', () => {
+    const keyframe = packKeyframe([stroke('a1')], []);
+    expect(keyframe.strokes[0]).toMatchObject({ id: 'a1', pts: [1.2, 5.7] });
+    expect(unpackKeyframe(keyframe, 42)[0].points).toEqual([{ x: 1.2, y: 5.7, t: 42 }]);
+  });
+});
@@ -0,0 +1,108 @@
+import { Keyframe, Layer, PointBatch, Stroke, StrokeOp, StrokePoint } from '../types';
+
+export const STROKE_BATCH_MS = 80;
+export const KEYFRAME_INTERVAL_MS = 5000; // at most this often, and only after the drawing changed
+
+// Tenths of a drawing unit are far below what the renderer can show
+const round = (n: number) => Math.round(n * 10) / 10;
+
+export function packPoints(points: StrokePoint[]): PointBatch {
+  const batch: PointBatch = { pts: points.flatMap(p => [round(p.x), round(p.y)]) };
+  if (points.some(p => p.p !== undefined)) batch.pr = points.map(p => Math.round((p.p ?? 0.5) * 100));
+  return batch;
+}
+
+/** Unpacked points are stamped with the time they arrived; their original timing is not sent. */
+export function unpackPoints(batch: PointBatch, t = Date.now()): StrokePoint[] {
+  const points: StrokePoint[] = [];
+  for (let i = 0; i < batch.pts.length; i += 2) {
+    const point: StrokePoint = { x: batch.pts[i], y: batch.pts[i + 1], t };
+    if (batch.pr) point.p = batch.pr[i / 2] / 100;
+    points.push(point);
+  }
+  return points;
+}
+
+export function packKeyframe(strokes: Stroke[], layers: Layer[]): Keyframe {
+  return { strokes: strokes.map(({ points, ...stroke }) => ({ ...stroke, ...packPoints(points) })), layers };
+}
+
+export function unpackKeyframe(keyframe: Keyframe, t = Date.now()): Stroke[] {
+  return keyframe.strokes.map(({ pts, pr, ...stroke }) => ({ ...stroke, points: unpackPoints({ pts, pr }, t) }));
+}
+
+/**
+ * Swaps the strokes `isAuthor` picks out of `list` for `next`. Strokes in both keep their place; the others
+ * come back right after the stroke that preceded them in `order` (a full stroke order, e.g. the author's
+ * canvas), or on top when `order` doesn't list them. Both ends of a shared canvas use this, so they agree.
+ */
+export function placeStrokes(list: Stroke[], isAuthor: (stroke: Stroke) => boolean, next: Stroke[], order: string[] = []): Stroke[] {
+  const byId = new Map(next.map(s => [s.id, s]));
+  const kept = list.filter(s => !isAuthor(s) || byId.has(s.id)).map(s => byId.get(s.id) ?? s);
+  const keptIds = new Set(kept.map(s => s.id));
+  const placed = new Set(keptIds);
+  // Returning strokes grouped by the kept stroke they follow (null: below everything)
+  const after = new Map<string | null, Stroke[]>();
+  let anchor: string | null = null;
+  for (const id of order) {
+    if (keptIds.has(id)) {
+      anchor = id;
+    } else if (byId.has(id) && !placed.has(id)) {
+      after.set(anchor, [...(after.get(anchor) ?? []), byId.get(id)!]);
+      placed.add(id);
+    }
+  }
+  const result = [...(after.get(null) ?? [])];
+  kept.forEach(s => result.push(s, ...(after.get(s.id) ?? [])));
+  return [...result, ...next.filter(s => !placed.has(s.id))];
+}
+
+export interface StrokeBatcher {
+  push: (op: StrokeOp) => void;
+  /** Sends everything queued right away, e.g. before a keyframe so the two arrive in order. */
+  flush: () => void;
+  close: () => void;
+}
+
+/**
+ * Queues ops and sends them every `intervalMs`. Consecutive point batches of the same stroke
+ * are merged and only the latest state op is kept, so a fast scribble costs a few messages a second.
+ */
+export function createStrokeBatcher(send: (ops: StrokeOp[]) => void, intervalMs = STROKE_BATCH_MS): StrokeBatcher {
+  let pending: StrokeOp[] = [];
+  let cursor: StrokeOp | null = null; // only the latest position matters
+  let timer: number | null = null;
+
+  const flush = () => {
+    if (timer !== null) { clearTimeout(timer); timer = null; }
+    const ops = cursor ? [...pending, cursor] : pending;
+    pending = [];
+    cursor = null;
+    if (ops.length) send(ops);
+  };
+
+  return {
+    push: (op) => {
+      const last = pending[pending.length - 1];
+      if (op.op === 'cursor') {
+        cursor = op;
+      } else if (op.op === 'points' && last?.op === 'points' && last.id === op.id && !last.pr === !op.pr) {
+        last.pts.push(...op.pts);
+        if (last.pr && op.pr) last.pr.push(...op.pr);
+      } else if (op.op === 'state' && last?.op === 'state') {
+        pending[pending.length - 1] = op;
+      } else {
+        // Copied so merging never mutates the caller's batch
+        pending.push(op.op === 'points' ? { ...op, pts: [...op.pts], pr: op.pr && [...op.pr] } : op);
+      }
+      if (timer === null) timer = window.setTimeout(flush, intervalMs);
+    },
+    flush,
+    close: () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+      pending = [];
+      cursor = null;
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import { DrawingRecording, Stroke } from '../types';
+import { CANVAS_BACKGROUND, renderStrokes } from './strokeRenderer';
+import { isLayerList, isStroke } from './drawingExport';
+
+export const REPLAY_SPEEDS = [1, 2, 8];
+
+/** Rebuilds the strokes visible `elapsed` ms into a recording, with in-progress strokes cut at that moment. */
+export function strokesAt(recording: DrawingRecording, elapsed: number): Stroke[] {
+  const cutoff = recording.startedAt + elapsed;
+  const byId = new Map<string, Stroke>();
+  let visible: string[] = [];
+
+  for (const event of recording.events) {
+    if (event.t > cutoff) break;
+    if (event.type === 'stroke') {
+      const points = event.stroke.points.filter(p => p.t <= cutoff);
+      byId.set(event.stroke.id, { ...event.stroke, points });
+      visible.push(event.stroke.id);
+    } else {
+      visible = [...event.visible];
+    }
+  }
+  return visible.map(id => byId.get(id)).filter((s): s is Stroke => !!s);
+}
+
+export function serializeRecording(recording: DrawingRecording): string {
+  return JSON.stringify(recording);
+}
+
+export function parseRecording(json: string): DrawingRecording {
+  const data = JSON.parse(json);
+  // Events are checked too: a bad one would otherwise throw later, while the replay renders
+  const validEvent = (e: any) => typeof e?.t === 'number' && (
+    e.type === 'stroke' ? isStroke(e.stroke) :
+    e.type === 'history' && Array.isArray(e.visible) && e.visible.every((id: unknown) => typeof id === 'string'));
+  if (data?.version !== 1 || typeof data.startedAt !== 'number' || typeof data.duration !== 'number' ||
+    typeof data.width !== 'number' || typeof data.height !== 'number' ||
+    !Array.isArray(data.events) || !data.events.every(validEvent) || !isLayerList(data.layers)) {
+    throw new Error('Not a Sketch Master recording');
+  }
+  return data as DrawingRecording;
+}
+
+/** Plays the recording onto an offscreen canvas and captures it with MediaRecorder. */
+export function recordWebm(recording: DrawingRecording, speed = 1, fps = 30): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported('video/webm')) {
+      reject(new Error('This browser can\'t record WebM video'));
+      return;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = recording.width;
+    canvas.height = recording.height;
+    renderStrokes(canvas, []);
+
+    const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+    const recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error('Video recording failed'));
+
+    const start = performance.now();
+    const tick = () => {
+      const elapsed = (performance.now() - start) * speed;
+      renderStrokes(canvas, strokesAt(recording, elapsed), CANVAS_BACKGROUND, recording.layers);
+      if (elapsed < recording.duration) {
+        requestAnimationFrame(tick);
+      } else {
+        // Hold the finished drawing on screen for a moment before stopping
+        setTimeout(() => recorder.stop(), 1000);
+      }
+    };
+    recorder.start();
+    requestAnimationFrame(tick);
+  });
+}
@@ -0,0 +1,14 @@
+import { TranscriptionItem } from '../types';
+
+export type TranscriptLabels = Record<TranscriptionItem['type'], string>;
+
+/** Adds a streamed chunk: appended to the latest caption of the same speaker unless it starts a new turn. */
+export function appendTranscript(items: TranscriptionItem[], chunk: TranscriptionItem, newTurn: boolean): TranscriptionItem[] {
+  const index = items.map(item => item.type).lastIndexOf(chunk.type);
+  if (newTurn || index === -1) return [...items, chunk];
+  return items.map((item, i) => i === index ? { ...item, text: item.text + chunk.text } : item);
+}
+
+export function formatTranscript(items: TranscriptionItem[], labels: TranscriptLabels): string {
+  return items.map(item => `${labels[item.type]}: ${item.text.trim()}`).join('\n');
+}
@@ -1,21 +1,95 @@
+import type { PlayerMetrics } from './services/judgeMetrics';
 
 export enum GameState {
   LOBBY = 'LOBBY',
   PLAYING = 'PLAYING',
   RESULTS = 'RESULTS',
-  WAITING = 'WAITING'
+  WAITING = 'WAITING',
+  GALLERY = 'GALLERY',
+  LEADERBOARD = 'LEADERBOARD'
 }
 
 export enum GameMode {
   SOLO = 'SOLO',
   BATTLE = 'BATTLE',
-  ONLINE = 'ONLINE'
+  ONLINE = 'ONLINE',
+  COOP = 'COOP', // an online room drawing one shared canvas as a team
+  GUESS = 'GUESS' // solo: the judge never sees the prompt and must guess it from the drawing
 }
 
+export type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
 export interface DrawingPrompt {
   id: string;
   label: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
+  difficulty: Difficulty;
+  category?: string;
+}
+
+/** A named word list; see services/promptLibrary.ts. */
+export interface PromptPack {
+  id: string;
+  name: string;
+  prompts: DrawingPrompt[];
+  builtIn?: boolean; // shipped with the game, read-only
+}
+
+/** fixed: the selected prompt every round; random: any prompt in the library; difficulty: any prompt of one difficulty. */
+export type PromptRule = 'fixed' | 'random' | 'difficulty';
+
+/** Chosen before a match; in ONLINE rooms the host's settings are sent with the roster. See services/match.ts. */
+export interface MatchSettings {
+  roundSeconds: number;
+  rounds: number;
+  promptRule: PromptRule;
+  difficulty: Difficulty; // used by the 'difficulty' rule
+  difficultyBonus: boolean; // scale awarded points by the prompt's difficulty
+}
+
+export type RoundEventKind = 'award' | 'deduct' | 'tip' | 'guess' | 'verdict';
+
+/** One judge action during a round, in the order they happened. */
+export interface RoundEvent {
+  kind: RoundEventKind;
+  playerId: string;
+  text: string; // the reason, tip, guess or verdict
+  points?: number; // award and deduct only; negative for deductions
+  at: number; // ms since the round started
+}
+
+/** A finished round as kept in the match history (services/historyStore.ts). */
+export interface RoundRecord {
+  id: string;
+  date: number;
+  mode: GameMode;
+  prompt: DrawingPrompt;
+  round: number;
+  rounds: number;
+  players: { id: string; name: string }[]; // COOP rounds have the one team entry
+  drawings: Record<string, string>; // DrawingDocument JSON by player id
+  scores: ScoreTable; // points scored this round
+  totals: ScoreTable; // match totals after this round
+  events: RoundEvent[];
+  aiImage?: string; // data URL of the AI TRANSFORM result
+}
+
+/** Lifetime totals for one mode and prompt difficulty; averages are the sums over `rounds`. */
+export interface StatBucket {
+  rounds: number;
+  wins: number; // matches won outright
+  points: number;
+  measured: number; // rounds that had final metrics; confidence and efficiency are summed over these
+  confidence: number;
+  efficiency: number;
+}
+
+/** A local player; see services/profiles.ts. */
+export interface Profile {
+  id: string;
+  name: string;
+  color: string;
+  stats: Record<string, StatBucket>; // keyed `${mode}:${difficulty}`
+  best: Record<string, { mode: GameMode; label: string; difficulty: Difficulty; score: number }>; // best round score, keyed `${mode}:${promptId}`
 }
 
 export interface TranscriptionItem {
@@ -23,16 +97,137 @@ export interface TranscriptionItem {
   text: string;
 }
 
-export interface MultiplayerMessage {
-  type: 'PLAYER_JOINED' | 'GAME_START' | 'SYNC_CANVAS' | 'SYNC_SCORE' | 'GAME_OVER' | 'HEARTBEAT';
+/**
+ * Scores keyed by session id, summed over the rounds of a match. In ONLINE rounds the host owns it;
+ * `base` is the table at the start of the round and `endsAt` times are on the host's clock.
+ */
+export type ScoreTable = Record<string, number>;
+
+interface MessageEnvelope<T extends string, P> {
+  v: number; // protocol version, see PROTOCOL_VERSION in services/protocol.ts
+  type: T;
   senderId: string;
-  payload: any;
+  payload: P;
 }
 
+export type MultiplayerMessage =
+  | MessageEnvelope<'PLAYER_JOINED', { name: string; isHost: boolean; isReady: boolean; rejoining?: boolean; role?: PlayerRole }>
+  | MessageEnvelope<'PLAYER_UPDATE', { name: string; isReady: boolean }>
+  | MessageEnvelope<'PLAYER_LEFT', {}>
+  | MessageEnvelope<'ROSTER', { players: Player[]; prompt: DrawingPrompt; mode: GameMode; settings: MatchSettings }>
+  | MessageEnvelope<'JOIN_REJECTED', { to: string; reason: string }>
+  | MessageEnvelope<'ROOM_STATE', { phase: GameState; prompt: DrawingPrompt; endsAt: number; duration: number; round: number; base: ScoreTable; scores: ScoreTable }>
+  | MessageEnvelope<'GAME_START', { prompt: DrawingPrompt; endsAt: number; duration: number; round: number; base: ScoreTable }>
+  | MessageEnvelope<'STROKE_DELTA', { ops: StrokeOp[] }>
+  | MessageEnvelope<'CANVAS_KEYFRAME', { keyframe: Keyframe }>
+  | MessageEnvelope<'SYNC_METRICS', { metrics: PlayerMetrics }>
+  | MessageEnvelope<'SCORE_UPDATE', { scores: ScoreTable; award?: { playerId: string; points: number; reason: string } }>
+  | MessageEnvelope<'GAME_OVER', { scores: ScoreTable }>
+  | MessageEnvelope<'JUDGE_VERDICT', { playerId: string; reason: string }>
+  | MessageEnvelope<'CLOCK_PING', { sentAt: number }>
+  | MessageEnvelope<'CLOCK_PONG', { to: string; sentAt: number; hostTime: number }>
+  | MessageEnvelope<'HEARTBEAT', { phase: GameState }>;
+
+export type MultiplayerMessageType = MultiplayerMessage['type'];
+
+/** Spectators watch a room live but never draw or score. */
+export type PlayerRole = 'player' | 'spectator';
+
 export interface Player {
   id: string;
   name: string;
   score: number;
   isReady: boolean;
+  isHost?: boolean;
+  role?: PlayerRole; // defaults to 'player'
   canvasData?: string;
 }
+
+export type LineStyle = 'solid' | 'dashed' | 'dotted';
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  t: number; // ms timestamp (Date.now())
+  p?: number; // stylus pressure 0–1, only recorded for pen input
+}
+
+export type Smoothing = 'none' | 'quadratic' | 'catmull-rom';
+
+export type Stabilizer = 'off' | 'lazy' | 'average';
+
+export type Tool = 'brush' | 'eraser' | 'fill' | 'line' | 'rect' | 'ellipse' | 'eyedropper';
+
+export interface Stroke {
+  id: string;
+  tool?: Exclude<Tool, 'eyedropper'>; // defaults to 'brush'
+  color: string;
+  width: number;
+  style: LineStyle;
+  points: StrokePoint[];
+  smoothing?: Smoothing; // curve fitting used when rendering, defaults to 'none'
+  tolerance?: number; // fill only, 0–100
+  layerId?: string; // defaults to the base layer
+}
+
+/** Packed points: flat [x, y, x, y, ...] in drawing units; `pr` holds pen pressure (0–100) per point. */
+export interface PointBatch {
+  pts: number[];
+  pr?: number[];
+}
+
+/** One step of a live drawing, as streamed to other players (see services/strokeSync.ts). */
+/** A canvas's own strokes with packed points: what CANVAS_KEYFRAME carries (see services/strokeSync.ts). */
+export interface Keyframe {
+  strokes: (Omit<Stroke, 'points'> & PointBatch)[];
+  layers: Layer[];
+}
+
+export type StrokeOp =
+  | ({ op: 'begin'; stroke: Omit<Stroke, 'points'> } & PointBatch)
+  | ({ op: 'points'; id: string } & PointBatch)
+  | { op: 'end'; id: string }
+  | { op: 'state'; visible: string[]; layers: Layer[]; order?: string[] } // after undo/redo/clear and layer edits; `order` (shared canvases) lists every stroke id on the sender's canvas
+  | { op: 'cursor'; at: [number, number] | null }; // shared canvases only; null when the pointer leaves
+
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number; // 0–1
+  locked: boolean;
+}
+
+export type RecordingEvent =
+  | { type: 'stroke'; t: number; stroke: Stroke }
+  | { type: 'history'; t: number; visible: string[] }; // stroke ids left on canvas after undo/redo/clear
+
+export interface DrawingRecording {
+  version: 1;
+  width: number;
+  height: number;
+  startedAt: number;
+  duration: number;
+  events: RecordingEvent[];
+  layers?: Layer[];
+}
+
+export interface DrawingDocument {
+  version: 1;
+  width: number;
+  height: number;
+  background: string;
+  layers?: Layer[];
+  strokes: Stroke[];
+}
+
+/** Envelope spoken between the browser and the WebSocket relay (server/relay.ts). */
+export type RelayClientMessage =
+  | { action: 'create'; room: string }
+  | { action: 'join'; room: string }
+  | { action: 'send'; data: MultiplayerMessage };
+
+export type RelayServerMessage =
+  | { event: 'joined'; room: string; peers: number }
+  | { event: 'message'; data: MultiplayerMessage }
+  | { event: 'error'; message: string };